@@ -1,31 +1,60 @@
 import React, { useState, useRef, useEffect, useMemo, useCallback } from 'react';
-import { AppState, AnalysisResult, ShoppingList as ShoppingListType } from './types';
+import { AppState, AnalysisResult, ColorScheme, PaletteColor, ShoppingList as ShoppingListType, Surface } from './types';
 import Hero from './components/Hero';
 import UploadSection from './components/UploadSection';
 import Visualizer from './components/Visualizer';
 import ShoppingList from './components/ShoppingList';
-import { analyzeImageForPaint, visualizeColor, generateShoppingList, compressImage } from './services/gemini';
+import { analyzeImageForPaint, visualizeColor, visualizeScheme, generateShoppingNotes, compressImage, getCheckOptions, getVisualizationPromptVersion, RenderOptions, Visualization } from './services/gemini';
+import { verifyVisualization, CheckOptions, VisualizationCheck } from './services/visualizationCheck';
+import { planShoppingList, BudgetOptions } from './services/budgetPlanner';
+import { getSchemeColors, getSchemeKey, splitSchemeArea, ROLE_LABELS } from './services/colorScheme';
+import { applyPriceList } from './services/priceList';
+import { validateShoppingList } from './services/ai/validation';
 import { ImageCache } from './services/cache';
+import { rememberContextCache, getContextCacheName, releaseContextCache } from './services/contextCache';
+import { getSessionPromptVersion } from './services/promptExperiment';
+import { getConfidentSpaceType } from './services/spaceType';
+import { getDefectKey } from './services/defectPrep';
+import { getAIProvider, providerCacheKey, classifyError, RetryAttempt } from './services/ai';
+import { describePaletteColor } from './services/paletteSnap';
+import { getProductForTier } from './data/paintProducts';
 import { validateImage, ValidationResult } from './services/imageValidation';
 import ImageValidationModal from './components/ImageValidationModal';
 import ImageValidationBanner from './components/ImageValidationBanner';
+import UsagePanel from './components/UsagePanel';
 import { checkRateLimit, recordVisualization, recordImageUpload, isImageUploadedToday, initRateLimiter } from './services/rateLimiter';
 import { Loader2, Plus, ExternalLink } from 'lucide-react';
 import { debounce } from './lib/debounce';
 
+// Offline providers cost nothing - usage limits only apply to metered ones
+const isMetered = getAIProvider().metered;
+
+// Token and cost ledger for whoever runs the deployment - not shown to end users
+const showUsagePanel = new URLSearchParams(window.location.search).has('admin');
+
 const App: React.FC = () => {
   const [appState, setAppState] = useState<AppState>(AppState.IDLE);
   const [originalImage, setOriginalImage] = useState<string | null>(null);
   const [visualizedImage, setVisualizedImage] = useState<string | null>(null);
+  const [visualizationCheck, setVisualizationCheck] = useState<VisualizationCheck | null>(null); // Failed = flag the render
   const [analysisResult, setAnalysisResult] = useState<AnalysisResult | null>(null);
   const [shoppingList, setShoppingList] = useState<ShoppingListType | null>(null);
+  const [shoppingColor, setShoppingColor] = useState<PaletteColor | null>(null);
+  const [isRefiningNotes, setIsRefiningNotes] = useState(false);
+  const [selectedStoreId, setSelectedStoreId] = useState<string | null>(null);
+  const [priceListVersion, setPriceListVersion] = useState(0);
   const [loading, setLoading] = useState(false);
   const [loadingMessage, setLoadingMessage] = useState<string>('');
+  const [retryStatus, setRetryStatus] = useState<RetryAttempt | null>(null);
   const [error, setError] = useState<string | null>(null);
+  // Out of renders or offline - the Visualizer then points to the free local preview
+  const [aiUnavailable, setAiUnavailable] = useState(false);
   const [base64Raw, setBase64Raw] = useState<string>('');
   const [imageHash, setImageHash] = useState<string>('');
-  const currentRequestRef = useRef<string | null>(null);
-  const loadingRequestRef = useRef<string | null>(null);
+  // In-flight AI work; aborting cancels the network request and skips the cache write
+  const analysisAbortRef = useRef<AbortController | null>(null);
+  const visualizationAbortRef = useRef<AbortController | null>(null);
+  const notesAbortRef = useRef<AbortController | null>(null);
   const visualizerRef = useRef<HTMLDivElement | null>(null);
   const [validationResult, setValidationResult] = useState<ValidationResult | null>(null);
   const [showValidationModal, setShowValidationModal] = useState(false);
@@ -37,6 +66,13 @@ const App: React.FC = () => {
     initRateLimiter();
   }, []);
 
+  // Abort in-flight AI requests on unmount
+  useEffect(() => () => {
+    analysisAbortRef.current?.abort();
+    visualizationAbortRef.current?.abort();
+    notesAbortRef.current?.abort();
+  }, []);
+
   const handleStart = () => {
     const uploadElement = document.getElementById('upload-area');
     if (uploadElement) {
@@ -51,7 +87,13 @@ const App: React.FC = () => {
     setValidationResult(null);
     // CRITICAL FIX: Clear previous visualization and cancel any pending requests
     setVisualizedImage(null);
-    currentRequestRef.current = null;
+    setVisualizationCheck(null);
+    visualizationAbortRef.current?.abort();
+    visualizationAbortRef.current = null;
+    analysisAbortRef.current?.abort();
+    const controller = new AbortController();
+    analysisAbortRef.current = controller;
+    const { signal } = controller;
     
     const reader = new FileReader();
     reader.onload = (e) => {
@@ -68,7 +110,7 @@ const App: React.FC = () => {
       setImageHash(hash);
 
       // Check image upload limit
-      const imageUploadCheck = recordImageUpload(hash);
+      const imageUploadCheck = isMetered ? recordImageUpload(hash) : { allowed: true };
       
       if (!imageUploadCheck.allowed) {
         // Non-blocking: Allow but show warning if duplicate
@@ -90,7 +132,8 @@ const App: React.FC = () => {
 
       // Check cache
       setLoadingMessage('Checking our memory...');
-      const cacheKey = `analysis_${hash}`;
+      // Prompt version in the key: new wording (or the other A/B variant) means a fresh analysis
+      const cacheKey = providerCacheKey(`analysis_${hash}_${getSessionPromptVersion('analysis')}`);
       
       setLoadingMessage('Analyzing surfaces...');
       const analysis = await ImageCache.getOrSet(cacheKey, async () => {
@@ -112,24 +155,33 @@ const App: React.FC = () => {
         }, 4000); // Change message every 4 seconds
         
         try {
-          const result = await analyzeImageForPaint(analysisImage, compressedBase64);
+          const { cacheName, cacheExpiresAt, ...result } = await analyzeImageForPaint(analysisImage, compressedBase64, { onRetry: setRetryStatus, signal });
           clearInterval(messageInterval);
           setLoadingMessage('Finalizing...');
+          // The remote cache outlives neither its TTL nor the project - track it apart from the 7-day analysis entry
+          if (cacheName && cacheExpiresAt) rememberContextCache(hash, cacheName, cacheExpiresAt);
           return result;
         } catch (error) {
           clearInterval(messageInterval);
           throw error;
         }
-      });
+      }, { signal });
       
       setAnalysisResult(analysis);
       setLoadingMessage('');
     } catch (err: any) {
+      // Cancelled by a new upload or "New" - nothing to report
+      if (signal.aborted) return;
       console.error(err);
       setError(err.message || "Failed to analyze image. Please try again.");
       setLoadingMessage('');
     } finally {
-      setLoading(false);
+      // Only the latest analysis owns the loading state
+      if (analysisAbortRef.current === controller) {
+        setLoading(false);
+        setRetryStatus(null);
+        analysisAbortRef.current = null;
+      }
     }
   };
 
@@ -195,44 +247,49 @@ const App: React.FC = () => {
     }
   };
 
-  const performVisualization = useCallback(async (colorName: string, colorHex: string) => {
+  /**
+   * Shared flow for every render: rate limit, cache, abort, loading messages and errors
+   * @param variantKey What is painted, e.g. "#FF6B35" or a scheme key - cached per image
+   * @param promptVersion Prompt the render uses - cached per version too
+   * @param checkOptions Same options the render was checked with, to re-check cache hits
+   */
+  const runVisualization = useCallback(async (
+    variantKey: string,
+    promptVersion: string,
+    render: (options: RenderOptions) => Promise<Visualization>,
+    checkOptions: CheckOptions
+  ) => {
     if (!base64Raw || !imageHash) {
       return;
     }
     
     // Check rate limits before proceeding
-    const rateLimitCheck = checkRateLimit();
+    const rateLimitCheck = isMetered ? checkRateLimit() : { allowed: true };
     if (!rateLimitCheck.allowed) {
       setError(rateLimitCheck.reason || 'Rate limit reached. Please try again later.');
+      setAiUnavailable(true);
       return;
     }
     
-    // Normalize hex value to ensure consistent cache keys
-    // This prevents cache misses due to hex format differences (e.g., #FF6B35 vs ff6b35 vs FF6B35)
-    const normalizedHex = colorHex.trim().toUpperCase().replace(/^#/, '');
-    const normalizedHexWithHash = normalizedHex.startsWith('#') ? normalizedHex : `#${normalizedHex}`;
-    
-    const requestId = `${imageHash}_${normalizedHexWithHash}`;
-    currentRequestRef.current = requestId;
-    loadingRequestRef.current = requestId;
+    // Abort the previous visualization - its network call and cache write are no longer wanted
+    visualizationAbortRef.current?.abort();
+    const controller = new AbortController();
+    visualizationAbortRef.current = controller;
+    const { signal } = controller;
     
     try {
       setLoading(true);
       setError(null);
       setLoadingMessage('Checking cache...');
       
-      // Create cache key: image hash + normalized color hex
-      // Using normalized hex ensures consistent cache keys regardless of input format
-      const cacheKey = `visualization_${imageHash}_${normalizedHexWithHash}`;
+      // Create cache key: image hash + what was painted
+      const cacheKey = providerCacheKey(`visualization_${imageHash}_${variantKey}_${promptVersion}`);
       
       // Check cache first - track if fetcher is called (indicates cache miss)
       let fetcherWasCalled = false;
+      let check: VisualizationCheck | null = null;
       const cached = await ImageCache.getOrSet(cacheKey, async () => {
         fetcherWasCalled = true;
-        // Verify this is still the current request
-        if (currentRequestRef.current !== requestId) {
-          throw new Error('Request cancelled');
-        }
         
         // Message rotation during API call (2-6 seconds) - keeps users engaged
         const visualizationMessages = [
@@ -246,10 +303,6 @@ const App: React.FC = () => {
         
         let messageIndex = 0;
         const messageInterval = setInterval(() => {
-          if (currentRequestRef.current !== requestId) {
-            clearInterval(messageInterval);
-            return;
-          }
           if (messageIndex < visualizationMessages.length) {
             setLoadingMessage(visualizationMessages[messageIndex]);
             messageIndex++;
@@ -260,34 +313,28 @@ const App: React.FC = () => {
             messageIndex++;
           }
         }, 5500); // Change message every 5.5 seconds (paint application takes longer)
+        signal.addEventListener('abort', () => clearInterval(messageInterval));
         
         try {
-          const result = await visualizeColor(
-            base64Raw, 
-            colorName, 
-            normalizedHexWithHash,
-            analysisResult // Pass analysis data to reuse surface analysis
-          );
-          
-          // Verify again before returning
-          if (currentRequestRef.current !== requestId) {
-            clearInterval(messageInterval);
-            throw new Error('Request cancelled');
-          }
+          // Every render the server ran counts, including a re-render after a failed check
+          const result = await render({ onRetry: setRetryStatus, signal, onRender: isMetered ? recordVisualization : undefined });
+          check = result.check;
           
           clearInterval(messageInterval);
           setLoadingMessage('Finalizing...');
-          return result;
+          return result.image;
         } catch (error) {
           clearInterval(messageInterval);
           throw error;
         }
+      }, {
+        signal,
+        // Renders that failed the check are shown flagged but never cached as good
+        shouldCache: () => !check || check.ok,
       });
       
-      // CRITICAL FIX: Validate request ID before using cached result
-      // This prevents stale cached results from previous images
-      if (currentRequestRef.current !== requestId) {
-        // Request was cancelled, ignore result
+      // A newer request (or reset) took over while the cache lookup resolved
+      if (signal.aborted) {
         return;
       }
       
@@ -298,34 +345,62 @@ const App: React.FC = () => {
         return;
       }
       
-      // Only record visualization if it was an actual API call (not from cache)
-      // This prevents cache hits from counting against rate limits
-      if (fetcherWasCalled) {
-        recordVisualization();
+      // Cached renders don't carry their check - re-run it locally for the accuracy report (free)
+      if (!fetcherWasCalled) {
+        check = await verifyVisualization(base64Raw, cached, checkOptions).catch(() => null);
+        if (signal.aborted) {
+          return;
+        }
       }
       
       setVisualizedImage(cached);
+      setVisualizationCheck(check);
+      setAiUnavailable(false);
       setLoadingMessage('');
     } catch (err: any) {
-      // Ignore cancellation errors silently
-      if (err.message === 'Request cancelled') {
+      // Ignore cancellations silently
+      if (signal.aborted) {
         return;
       }
       
-      // Only show error if this is still the current request
-      if (currentRequestRef.current === requestId) {
-        console.error(err);
-        setError(err.message || "Could not generate visualization. Try another color.");
-        setLoadingMessage('');
-      }
+      console.error(err);
+      const { kind } = classifyError(err);
+      setAiUnavailable(kind === 'quota' || kind === 'rate_limited' || kind === 'network');
+      setError(err.message || "Could not generate visualization. Try another color.");
+      setLoadingMessage('');
     } finally {
       // Only clear loading if this request owns the loading state
-      if (loadingRequestRef.current === requestId) {
+      if (visualizationAbortRef.current === controller) {
         setLoading(false);
-        loadingRequestRef.current = null;
+        setRetryStatus(null);
+        visualizationAbortRef.current = null;
       }
     }
-  }, [base64Raw, imageHash, analysisResult]);
+  }, [base64Raw, imageHash]);
+
+  // Analysis plus the photo's context cache, looked up per render so an expired cache is never sent
+  const withContextCache = useCallback((analysis: AnalysisResult | null) =>
+    analysis ? { ...analysis, cacheName: getContextCacheName(imageHash) } : undefined,
+  [imageHash]);
+
+  const performVisualization = useCallback((colorName: string, colorHex: string, surface?: Surface) => {
+    // Normalize hex value to ensure consistent cache keys
+    // This prevents cache misses due to hex format differences (e.g., #FF6B35 vs ff6b35 vs FF6B35)
+    const normalizedHex = colorHex.trim().toUpperCase().replace(/^#/, '');
+    const normalizedHexWithHash = `#${normalizedHex}`;
+    // Single-surface renders are cached separately from whole-house ones
+    const surfaceSuffix = surface ? `_${surface.id}` : '';
+
+    const analysis = withContextCache(analysisResult);
+    return runVisualization(`${normalizedHexWithHash}${surfaceSuffix}`, getVisualizationPromptVersion(analysis, surface), options => visualizeColor(
+      base64Raw,
+      colorName,
+      normalizedHexWithHash,
+      analysis, // Pass analysis data to reuse surface analysis
+      surface,
+      options
+    ), getCheckOptions(normalizedHexWithHash, surface));
+  }, [runVisualization, base64Raw, analysisResult, withContextCache]);
 
   // Create debounced version of visualization function
   const debouncedVisualize = useMemo(
@@ -333,51 +408,118 @@ const App: React.FC = () => {
     [performVisualization]
   );
 
-  const handleVisualize = useCallback((colorName: string, colorHex: string) => {
-    // INSTANT UI UPDATE: Clear previous visualization immediately
+  const handleVisualize = useCallback((colorName: string, colorHex: string, surface?: Surface) => {
+    // INSTANT UI UPDATE: Clear previous visualization and abort the one in flight
     setVisualizedImage(null);
+    setVisualizationCheck(null);
+    visualizationAbortRef.current?.abort();
     
     // Debounced API call (prevents rapid-fire requests)
-    debouncedVisualize(colorName, colorHex);
+    debouncedVisualize(colorName, colorHex, surface);
   }, [debouncedVisualize]);
 
+  // Scheme renders start from an explicit button press, so they skip the debounce
+  const handleVisualizeScheme = useCallback((scheme: ColorScheme) => {
+    setVisualizedImage(null);
+    setVisualizationCheck(null);
+    runVisualization(
+      getSchemeKey(scheme),
+      getSessionPromptVersion('scheme'),
+      options => visualizeScheme(base64Raw, scheme, withContextCache(analysisResult), options),
+      getCheckOptions()
+    );
+  }, [runVisualization, base64Raw, analysisResult, withContextCache]);
+
   // REMOVED: handlePrefetchVisualization was causing excessive API costs
   // Each hover over a color triggered an API call (~$0.05-0.15 each)
   // With 5+ hovers per image × 40 images = 200+ unnecessary API calls
 
-  const handleGenerateList = async (colorName: string, area: number) => {
+  const handleGenerateList = async (
+    color: PaletteColor,
+    area: number,
+    budget: BudgetOptions,
+    surface?: Surface,
+    scheme?: ColorScheme // Body/trim/accent colors; color is then the body color
+  ) => {
     if (!analysisResult) return;
+    setError(null);
+
+    // A targeted surface brings its own material and condition (e.g. a rusty metal gate)
+    const surfaceType = surface?.material || analysisResult.surfaceType;
+    const condition = surface?.condition || analysisResult.condition;
+    // Defects aren't tied to a surface; they describe the main walls, so other surfaces go without
+    const defects = !surface || surface.id === analysisResult.surfaces?.[0]?.id ? analysisResult.defects : undefined;
+
+    const colorLabel = describePaletteColor(color);
+    // Scheme roles get their own paint lines, sized by each role's share of the area
+    const roleAreas = scheme ? splitSchemeArea(area, scheme) : null;
+    const roles = scheme
+      ? getSchemeColors(scheme)
+          .filter(({ role }) => role !== 'body')
+          .map(({ role, color: roleColor }) => ({
+            role: role as 'trim' | 'accent',
+            area: roleAreas![role],
+            colorLabel: describePaletteColor(roleColor),
+            color: roleColor,
+          }))
+      : undefined;
+    // Notes see every color, e.g. "Body: Ivory (Neuce NC-001), Trim: Terracotta (Neuce NC-002)"
+    const notesColorLabel = roles
+      ? [`${ROLE_LABELS.body}: ${colorLabel}`, ...roles.map(r => `${ROLE_LABELS[r.role]}: ${r.colorLabel}`)].join(', ')
+      : colorLabel;
+
+    // Quantities and prices are calculated locally - same inputs, same list
+    // The planner picks the product tier (and any trade-offs) to fit the budget
+    const spaceType = getConfidentSpaceType(analysisResult);
+    const list = planShoppingList(
+      { area, surfaceType, condition, colorLabel, roles, spaceType, defects },
+      color,
+      { ...budget, storeId: selectedStoreId ?? undefined }
+    );
+    // Real product line for the chosen color (undefined for colors that aren't stocked)
+    const paintProduct = list.budget ? getProductForTier(color, list.budget.tier, spaceType) : undefined;
+
+    setShoppingList(list);
+    setShoppingColor(color);
+    setAppState(AppState.SHOPPING);
+
+    // Optional AI pass: installer notes only. Failure keeps the calculated notes.
+    // A newer list (or reset) aborts the notes still on their way for this one
+    notesAbortRef.current?.abort();
+    const controller = new AbortController();
+    notesAbortRef.current = controller;
+    const { signal } = controller;
     try {
-      setLoading(true);
-      setError(null);
-      setLoadingMessage('Calculating material quantities...');
-      
-      // Cache shopping lists by surface type, condition, color, and rounded area
-      const roundedArea = Math.round(area);
-      const cacheKey = `shopping_${analysisResult.surfaceType}_${analysisResult.condition}_${colorName}_${roundedArea}`;
-      
-      const list = await ImageCache.getOrSet(cacheKey, async () => {
-        // No longer need image - we have analysis results
-        return await generateShoppingList(
-          analysisResult!.surfaceType,
-          analysisResult!.condition,
-          colorName,
-          area
-        );
-      });
-      
-      setShoppingList(list);
-      setAppState(AppState.SHOPPING);
-      setLoadingMessage('');
-    } catch (err: any) {
-      console.error(err);
-      setError(err.message || "Failed to generate shopping list.");
-      setLoadingMessage('');
+      setIsRefiningNotes(true);
+      const schemeSuffix = scheme ? `_${getSchemeKey(scheme)}` : '';
+      const cacheKey = providerCacheKey(`shopping_notes_${surfaceType}_${condition}_${color.code || color.name}${schemeSuffix}_${paintProduct?.sku || 'generic'}_${list.calculation?.coats}c_${list.calculation?.needsPrimer ? 'primed' : 'unprimed'}_${Math.round(area)}_${getDefectKey(defects)}_${getSessionPromptVersion('notes')}`);
+      const notes = await ImageCache.getOrSet(cacheKey, () =>
+        generateShoppingNotes(surfaceType, condition, notesColorLabel, list, paintProduct, { signal }),
+        { signal }
+      );
+      if (signal.aborted) return;
+      // Ignore if the user has generated a different list in the meantime
+      setShoppingList(current => current === list ? { ...list, installationNotes: notes } : current);
+    } catch (err) {
+      if (!signal.aborted) console.warn('Could not add AI installation notes, using calculated notes:', err);
     } finally {
-      setLoading(false);
+      if (notesAbortRef.current === controller) {
+        notesAbortRef.current = null;
+        setIsRefiningNotes(false);
+      }
     }
   };
 
+  // Store prices replace estimates wherever a SKU has a current price
+  // Validated like model output: imported price lists and product files are user data too
+  const pricedShoppingList = useMemo(() => {
+    if (!shoppingList) return null;
+    const result = validateShoppingList(applyPriceList(shoppingList, selectedStoreId ?? undefined));
+    if (result.repairs.length > 0) console.warn('Normalized shopping list:', result.repairs);
+    return result.ok ? result.value : shoppingList;
+  // priceListVersion bumps after a CSV import or store removal
+  }, [shoppingList, selectedStoreId, priceListVersion]);
+
   // Scroll to top when transitioning to visualizer (no animation on initial load)
   useEffect(() => {
     if (appState === AppState.VISUALIZING && !hasScrolledToVisualizer.current) {
@@ -395,20 +537,31 @@ const App: React.FC = () => {
 
 
   const handleReset = () => {
+    if (imageHash) releaseContextCache(imageHash);
     setAppState(AppState.IDLE);
     setOriginalImage(null);
     setVisualizedImage(null);
+    setVisualizationCheck(null);
     setAnalysisResult(null);
     setShoppingList(null);
+    setShoppingColor(null);
     setError(null);
     setLoadingMessage('');
+    setRetryStatus(null);
     setBase64Raw('');
     setImageHash('');
     setValidationResult(null);
     setShowValidationModal(false);
     setPendingFile(null);
-    currentRequestRef.current = null; // Cancel any pending requests
-    loadingRequestRef.current = null;
+    // Cancel any pending requests
+    analysisAbortRef.current?.abort();
+    analysisAbortRef.current = null;
+    visualizationAbortRef.current?.abort();
+    visualizationAbortRef.current = null;
+    notesAbortRef.current?.abort();
+    notesAbortRef.current = null;
+    setIsRefiningNotes(false);
+    setLoading(false);
     hasScrolledToVisualizer.current = false;
   };
 
@@ -509,7 +662,11 @@ const App: React.FC = () => {
                 analysis={analysisResult}
                 isVisualizing={loading}
                 loadingMessage={loadingMessage}
+                retryStatus={retryStatus}
+                aiUnavailable={aiUnavailable}
+                visualizationCheck={visualizationCheck}
                 onVisualize={handleVisualize}
+                onVisualizeScheme={handleVisualizeScheme}
                 onGenerateList={handleGenerateList}
                 onScrollToVisualizer={() => {
                   visualizerRef.current?.scrollIntoView({ behavior: 'smooth', block: 'start' });
@@ -532,14 +689,21 @@ const App: React.FC = () => {
         )}
 
         {/* Shopping State */}
-        {appState === AppState.SHOPPING && shoppingList && (
+        {appState === AppState.SHOPPING && pricedShoppingList && (
           <ShoppingList 
-            list={shoppingList}
+            list={pricedShoppingList}
+            color={shoppingColor}
+            isRefiningNotes={isRefiningNotes}
+            selectedStoreId={selectedStoreId}
+            onSelectStore={setSelectedStoreId}
+            onPriceListsChanged={() => setPriceListVersion(v => v + 1)}
             onBack={() => setAppState(AppState.VISUALIZING)}
           />
         )}
       </main>
 
+      {showUsagePanel && <UsagePanel />}
+
       {/* Footer */}
       <footer className="bg-paper-warm border-t border-stone-100 py-8 sm:py-10 mt-auto">
         <div className="max-w-7xl mx-auto px-4 flex flex-col sm:flex-row items-center justify-between gap-2 sm:gap-4">
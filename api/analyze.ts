@@ -0,0 +1,29 @@
+/**
+ * POST /api/analyze - Surface analysis and palette suggestions for a photo
+ * Body: { image: base64 JPEG, fullSizeImage?: base64 JPEG for context caching, promptVariant?: "A" | "B" }
+ */
+
+import { createHash } from 'node:crypto';
+import { handle, json, readJson, requireString, optionalString, getClientId } from '../server/http.js';
+import { recordImageAnalysis } from '../server/rateLimit.js';
+import { analyzeImage } from '../server/gemini.js';
+import { toPromptVariant } from '../data/prompts.js';
+import type { ModelUsage } from '../types.js';
+
+const MAX_IMAGE_CHARS = 4_000_000; // ~3MB of image data; client compresses to well under this
+
+export const POST = handle(async (request) => {
+  const body = await readJson(request);
+  const image = requireString(body, 'image', MAX_IMAGE_CHARS);
+  const fullSizeImage = optionalString(body, 'fullSizeImage', MAX_IMAGE_CHARS);
+
+  // Same photo can be re-analyzed; only new photos count against the daily cap
+  const imageHash = createHash('sha256').update(fullSizeImage || image).digest('hex');
+  const clientId = getClientId(request);
+  recordImageAnalysis(clientId, imageHash);
+
+  const usage: ModelUsage[] = [];
+  // request.signal aborts when the browser cancels (new photo, "New"), stopping the model call and cache creation
+  const analysis = await analyzeImage(image, fullSizeImage, imageHash, clientId, toPromptVariant(body.promptVariant), request.signal, usage);
+  return json({ ...analysis, usage });
+});
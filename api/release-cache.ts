@@ -0,0 +1,19 @@
+/**
+ * POST /api/release-cache - Delete a photo's context cache when its project is closed
+ * Body: { cacheName: "cachedContents/..." }
+ */
+
+import { ApiError, handle, json, readJson, requireString, getClientId } from '../server/http.js';
+import { isContextCacheName } from '../server/contextCache.js';
+import { releaseContextCache } from '../server/gemini.js';
+
+export const POST = handle(async (request) => {
+  const body = await readJson(request);
+  const cacheName = requireString(body, 'cacheName', 200);
+  if (!isContextCacheName(cacheName)) {
+    throw new ApiError(400, `Invalid cache name "${cacheName}".`);
+  }
+
+  await releaseContextCache(cacheName, getClientId(request));
+  return json({ released: true });
+});
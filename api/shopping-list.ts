@@ -0,0 +1,37 @@
+/**
+ * POST /api/shopping-list - Installation notes for a calculated shopping list
+ * Body: { surfaceType, condition, colorLabel (one color or a "Body: …, Trim: …" scheme), product?, materials: string[], promptVariant? }
+ * Quantities and prices are calculated in the browser; only the notes come from the model
+ */
+
+import { ApiError, handle, json, readJson, requireString, optionalString, getClientId } from '../server/http.js';
+import { recordNotesRequest } from '../server/rateLimit.js';
+import { generateNotes } from '../server/gemini.js';
+import { toPromptVariant } from '../data/prompts.js';
+import type { ModelUsage } from '../types.js';
+
+const MAX_MATERIALS = 30;
+
+export const POST = handle(async (request) => {
+  const body = await readJson(request);
+  const surfaceType = requireString(body, 'surfaceType', 100);
+  const condition = requireString(body, 'condition', 100);
+  const colorLabel = requireString(body, 'colorLabel', 400);
+  const product = optionalString(body, 'product', 500);
+
+  if (!Array.isArray(body.materials) || body.materials.length > MAX_MATERIALS) {
+    throw new ApiError(400, `"materials" must be a list of at most ${MAX_MATERIALS} items.`);
+  }
+  const materials = body.materials
+    .filter((item): item is string => typeof item === 'string')
+    .map(item => item.slice(0, 200));
+
+  recordNotesRequest(getClientId(request));
+
+  // request.signal aborts when the browser moves on (new list, "New"), so abandoned notes stop costing money
+  const usage: ModelUsage[] = [];
+  const notes = await generateNotes(
+    { surfaceType, condition, colorLabel, product, materials }, toPromptVariant(body.promptVariant), request.signal, usage
+  );
+  return json({ ...notes, usage });
+});
@@ -0,0 +1,49 @@
+/**
+ * POST /api/visualize-scheme - Photo repainted in a body/trim/accent color scheme, as one render
+ * Body: { image, scheme: [{ role, colorName, colorHex }], context?: { surfaceType, condition, description, spaceType?, cacheName? }, promptVariant? }
+ */
+
+import { ApiError, handle, json, readJson, requireString, requireHexColor, getClientId } from '../server/http.js';
+import { reserveVisualization } from '../server/rateLimit.js';
+import { visualizeScheme, readVisualizationContext, SchemeColor } from '../server/gemini.js';
+import { SCHEME_ROLES } from '../services/colorScheme.js';
+import { toPromptVariant } from '../data/prompts.js';
+import type { ModelUsage } from '../types.js';
+
+const MAX_IMAGE_CHARS = 4_000_000;
+
+const readScheme = (value: unknown): SchemeColor[] => {
+  if (!Array.isArray(value) || value.length < 2 || value.length > SCHEME_ROLES.length) {
+    throw new ApiError(400, `"scheme" must list 2-${SCHEME_ROLES.length} colors.`);
+  }
+  const scheme = value.map((entry): SchemeColor => {
+    const color = (entry && typeof entry === 'object' ? entry : {}) as Record<string, unknown>;
+    const role = SCHEME_ROLES.find(r => r === color.role);
+    if (!role) throw new ApiError(400, `Unknown scheme role "${color.role}".`);
+    return { role, colorName: requireString(color, 'colorName', 100), colorHex: requireHexColor(color, 'colorHex') };
+  });
+  if (!scheme.some(s => s.role === 'body') || new Set(scheme.map(s => s.role)).size !== scheme.length) {
+    throw new ApiError(400, 'A scheme needs one body color and at most one color per role.');
+  }
+  return scheme;
+};
+
+export const POST = handle(async (request) => {
+  const body = await readJson(request);
+  const image = requireString(body, 'image', MAX_IMAGE_CHARS);
+  const scheme = readScheme(body.scheme);
+
+  const context = readVisualizationContext(body.context);
+  const release = reserveVisualization(getClientId(request));
+
+  const usage: ModelUsage[] = [];
+  try {
+    const result = await visualizeScheme(image, scheme, context, toPromptVariant(body.promptVariant), request.signal, usage);
+    return json({ ...result, usage });
+  } catch (error) {
+    // Only renders that never reached a billed model call give the slot back;
+    // a safety block or bad image was paid for and keeps the count and cooldown
+    if (usage.length === 0) release();
+    throw error;
+  }
+});
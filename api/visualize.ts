@@ -0,0 +1,54 @@
+/**
+ * POST /api/visualize - Photo repainted in the chosen color
+ * Body: { image, colorName, colorHex, context?: { surfaceType, condition, description, spaceType?, cacheName? },
+ *         surface?: { name, material, condition }, promptVariant? } - with surface, only that surface is repainted
+ */
+
+import { handle, json, readJson, requireString, requireHexColor, getClientId } from '../server/http.js';
+import { reserveVisualization } from '../server/rateLimit.js';
+import { visualizeImage, readVisualizationContext, TargetSurface } from '../server/gemini.js';
+import { toPromptVariant } from '../data/prompts.js';
+import { MAX_SURFACE_TEXT } from '../services/ai/validation.js';
+import type { ModelUsage } from '../types.js';
+
+const MAX_IMAGE_CHARS = 4_000_000;
+const MAX_SURFACE_FIELD_CHARS = 500; // Rejected above this; longer than MAX_SURFACE_TEXT is only shortened
+
+// Analyses cached before surface text was capped can still carry long model text - shorten it, don't reject it
+const readSurfaceText = (surface: Record<string, unknown>, field: string): string =>
+  requireString(surface, field, MAX_SURFACE_FIELD_CHARS).trim().slice(0, MAX_SURFACE_TEXT);
+
+const readSurface = (value: unknown): TargetSurface | undefined => {
+  if (!value || typeof value !== 'object') return undefined;
+  const surface = value as Record<string, unknown>;
+  return {
+    name: readSurfaceText(surface, 'name'),
+    material: readSurfaceText(surface, 'material'),
+    condition: readSurfaceText(surface, 'condition'),
+  };
+};
+
+export const POST = handle(async (request) => {
+  const body = await readJson(request);
+  const image = requireString(body, 'image', MAX_IMAGE_CHARS);
+  const colorName = requireString(body, 'colorName', 100);
+  const colorHex = requireHexColor(body, 'colorHex');
+
+  const context = readVisualizationContext(body.context);
+  const surface = readSurface(body.surface);
+  const release = reserveVisualization(getClientId(request));
+
+  // request.signal aborts when the browser cancels, so an abandoned color stops costing money
+  const usage: ModelUsage[] = [];
+  try {
+    const result = await visualizeImage(
+      image, colorName, colorHex, context, surface, toPromptVariant(body.promptVariant), request.signal, usage
+    );
+    return json({ ...result, usage });
+  } catch (error) {
+    // Only renders that never reached a billed model call give the slot back;
+    // a safety block or bad image was paid for and keeps the count and cooldown
+    if (usage.length === 0) release();
+    throw error;
+  }
+});
@@ -1,35 +1,42 @@
 import { motion, AnimatePresence } from "framer-motion";
 import { Loader2 } from "lucide-react";
-import { useEffect, useState } from "react";
+import { useEffect, useMemo, useState } from "react";
+import { formatRetryMessage, RetryAttempt } from "../services/ai/retry";
 
 interface AnimatedLoadingMessagesProps {
   messages?: string[];
   interval?: number;
   className?: string;
   showDots?: boolean;
+  retry?: Pick<RetryAttempt, "attempt" | "maxAttempts"> | null; // Replaces the messages while a request is retried
 }
 
 const AnimatedLoadingMessages: React.FC<AnimatedLoadingMessagesProps> = ({
   messages = [],
   interval = 3000,
   className = "",
-  showDots = true
+  showDots = true,
+  retry = null
 }) => {
+  const activeMessages = useMemo(
+    () => (retry ? [formatRetryMessage(retry)] : messages),
+    [messages, retry?.attempt, retry?.maxAttempts]
+  );
+
   const [currentIndex, setCurrentIndex] = useState(0);
   const [displayMessages, setDisplayMessages] = useState(messages);
   const [messageKey, setMessageKey] = useState(0);
 
   // Update messages when prop changes - use key to force re-animation
   useEffect(() => {
-    if (messages && messages.length > 0) {
-      setDisplayMessages(messages);
+    if (activeMessages && activeMessages.length > 0) {
+      setDisplayMessages(activeMessages);
       // Force re-animation by changing key when messages change
       setMessageKey(prev => prev + 1);
-      if (messages.length > 1) {
-        setCurrentIndex(0);
-      }
+      // Single messages always show index 0
+      setCurrentIndex(0);
     }
-  }, [messages]);
+  }, [activeMessages]);
 
   useEffect(() => {
     if (displayMessages.length === 0) return;
@@ -0,0 +1,83 @@
+import React, { useMemo } from 'react';
+import { ArrowLeftRight } from 'lucide-react';
+import { PaletteColor } from '../types';
+import { getEquivalents, MATCH_LABEL_TEXT, MatchLabel } from '../data/colorEquivalents';
+
+interface ColorEquivalentsProps {
+  color: PaletteColor;
+  title?: string;
+  onSelect?: (color: PaletteColor) => void; // Omit for a read-only list
+}
+
+const labelStyles: Record<MatchLabel, string> = {
+  close: 'bg-emerald-50 text-emerald-700',
+  near: 'bg-amber-50 text-amber-700',
+  rough: 'bg-stone-100 text-stone-600',
+};
+
+const ColorEquivalents: React.FC<ColorEquivalentsProps> = ({
+  color,
+  title = 'Other brands',
+  onSelect,
+}) => {
+  const equivalents = useMemo(() => getEquivalents(color), [color]);
+
+  return (
+    <div>
+      <h4 className="text-xs font-semibold uppercase tracking-wider text-ink-muted flex items-center gap-1.5 mb-2">
+        <ArrowLeftRight className="w-3.5 h-3.5" />
+        {title}
+      </h4>
+
+      {equivalents.length === 0 ? (
+        <p className="text-sm text-ink-subtle">No similar color from another brand.</p>
+      ) : (
+        <ul className="space-y-1.5">
+          {equivalents.map(({ color: equivalent, deltaE, label }) => {
+            const content = (
+              <>
+                <span
+                  className="w-6 h-6 rounded-full border border-ink/10 flex-shrink-0"
+                  style={{ backgroundColor: equivalent.hex }}
+                />
+                <span className="flex-1 min-w-0 text-left">
+                  <span className="block text-sm font-medium text-ink truncate">{equivalent.name}</span>
+                  <span className="block text-xs text-ink-subtle">
+                    {equivalent.manufacturer}{equivalent.code ? ` ${equivalent.code}` : ''} • ΔE {deltaE.toFixed(1)}
+                  </span>
+                </span>
+                <span className={`text-[10px] sm:text-xs font-semibold px-2 py-0.5 rounded-full whitespace-nowrap ${labelStyles[label]}`}>
+                  {MATCH_LABEL_TEXT[label]}
+                </span>
+              </>
+            );
+
+            return (
+              <li key={equivalent.code || `${equivalent.manufacturer}-${equivalent.name}`}>
+                {onSelect ? (
+                  <button
+                    onClick={() => onSelect({
+                      name: equivalent.name,
+                      hex: equivalent.hex,
+                      manufacturer: equivalent.manufacturer,
+                      code: equivalent.code,
+                      stocked: true,
+                    })}
+                    className="w-full flex items-center gap-3 p-2 rounded-lg hover:bg-stone-100 transition-colors touch-manipulation"
+                    aria-label={`Swap to ${equivalent.manufacturer} ${equivalent.name}`}
+                  >
+                    {content}
+                  </button>
+                ) : (
+                  <div className="flex items-center gap-3 p-2">{content}</div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default ColorEquivalents;
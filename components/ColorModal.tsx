@@ -1,13 +1,15 @@
 import React, { useState, useMemo, useEffect } from 'react';
 import { X, Search, Check } from 'lucide-react';
-import { Palette } from '../types';
+import { Palette, PaletteColor } from '../types';
+import { hexToRgb, hexDeltaE } from '../data/colorScience';
+import ColorEquivalents from './ColorEquivalents';
 
 interface ColorModalProps {
   isOpen: boolean;
   onClose: () => void;
   palette: Palette;
-  selectedColor: { name: string; hex: string } | null;
-  onSelectColor: (color: { name: string; hex: string }) => void;
+  selectedColor: PaletteColor | null;
+  onSelectColor: (color: PaletteColor) => void;
 }
 
 const ColorModal: React.FC<ColorModalProps> = ({
@@ -65,23 +67,34 @@ const ColorModal: React.FC<ColorModalProps> = ({
     return color1.name === color2.name && hex1 === hex2;
   };
 
+  // A full hex query (e.g. "#E07050") ranks colors by perceptual closeness instead of filtering
+  const hexQuery = useMemo(() => {
+    const query = searchQuery.trim();
+    return /^#?[0-9A-Fa-f]{6}$/.test(query) && hexToRgb(query) ? query : null;
+  }, [searchQuery]);
+
   // Filter colors based on search query
   const filteredColors = useMemo(() => {
     if (!searchQuery.trim()) return palette.colors;
+
+    if (hexQuery) {
+      return [...palette.colors].sort((a, b) => hexDeltaE(hexQuery, a.hex) - hexDeltaE(hexQuery, b.hex));
+    }
     
     const query = searchQuery.toLowerCase().trim();
     return palette.colors.filter((color) => {
       const name = color.name.toLowerCase();
       const hex = color.hex.toLowerCase();
-      return name.includes(query) || hex.includes(query);
+      const code = (color.code || '').toLowerCase();
+      return name.includes(query) || hex.includes(query) || code.includes(query);
     });
-  }, [palette.colors, searchQuery]);
+  }, [palette.colors, searchQuery, hexQuery]);
 
   if (!isOpen) return null;
 
-  const handleSelect = (color: { name: string; hex: string }) => {
+  const handleSelect = (color: PaletteColor) => {
     const normalizedHex = normalizeHex(color.hex);
-    onSelectColor({ name: color.name, hex: normalizedHex });
+    onSelectColor({ ...color, hex: normalizedHex });
     onClose();
   };
 
@@ -132,7 +145,7 @@ const ColorModal: React.FC<ColorModalProps> = ({
                 type="search"
                 value={searchQuery}
                 onChange={(e) => setSearchQuery(e.target.value)}
-                placeholder="Search colors by name or hex code..."
+                placeholder="Search colors by name, hex or product code..."
                 className="w-full pl-12 pr-4 py-3 rounded-xl border border-stone-200 focus:border-accent focus:ring-2 focus:ring-accent/20 outline-none transition-all"
                 aria-label="Search colors"
                 autoFocus
@@ -140,7 +153,9 @@ const ColorModal: React.FC<ColorModalProps> = ({
             </div>
             {searchQuery && (
               <p className="mt-2 text-sm text-ink-subtle">
-                {filteredColors.length} {filteredColors.length === 1 ? 'color' : 'colors'} found
+                {hexQuery
+                  ? `Closest to ${hexQuery.startsWith('#') ? hexQuery.toUpperCase() : `#${hexQuery.toUpperCase()}`} shown first`
+                  : `${filteredColors.length} ${filteredColors.length === 1 ? 'color' : 'colors'} found`}
               </p>
             )}
           </div>
@@ -158,7 +173,7 @@ const ColorModal: React.FC<ColorModalProps> = ({
                       key={idx}
                       onClick={() => handleSelect(color)}
                       className="flex flex-col items-center group cursor-pointer focus:outline-none focus:ring-2 focus:ring-accent focus:ring-offset-2 rounded-lg p-2 transition-all touch-manipulation"
-                      aria-label={`Select color ${color.name}, hex ${normalizedHex}`}
+                      aria-label={`Select color ${color.name}, hex ${normalizedHex}${color.code ? `, code ${color.code}` : ''}`}
                       tabIndex={0}
                     >
                       <div
@@ -186,6 +201,11 @@ const ColorModal: React.FC<ColorModalProps> = ({
                       >
                         {color.name}
                       </span>
+                      {color.code ? (
+                        <span className="text-[10px] text-ink-subtle text-center leading-tight mt-0.5">{color.code}</span>
+                      ) : color.stocked === false && (
+                        <span className="text-[10px] text-amber-700 text-center leading-tight mt-0.5">Not stocked</span>
+                      )}
                     </button>
                   );
                 })}
@@ -198,6 +218,17 @@ const ColorModal: React.FC<ColorModalProps> = ({
             )}
           </div>
 
+          {/* Cross-brand swaps for the current selection */}
+          {selectedColor && (
+            <div className="px-4 sm:px-6 py-4 border-t border-stone-200 max-h-56 overflow-y-auto custom-scrollbar">
+              <ColorEquivalents
+                color={selectedColor}
+                title={`Alternatives to ${selectedColor.name}`}
+                onSelect={handleSelect}
+              />
+            </div>
+          )}
+
           {/* Footer */}
           <div className="p-4 sm:p-6 border-t border-stone-200 bg-stone-50/50">
             <p className="text-sm text-ink-subtle text-center">
@@ -0,0 +1,90 @@
+import React, { useState, useEffect } from 'react';
+import { Defect } from '../types';
+import { DEFECT_LABELS, SEVERITY_COLORS, SEVERITY_LABELS } from '../services/defectPrep';
+
+interface DefectOverlayProps {
+  image: string; // Photo the boxes were detected on
+  defects: Defect[];
+  highlighted?: number | null; // Index of the defect to emphasise (e.g. hovered in the list)
+}
+
+/**
+ * Defect boxes drawn over an object-cover photo
+ * The SVG uses the photo's own pixel size as its viewBox and "slice" scaling - the same crop as
+ * object-cover - so boxes stay on their defects whatever the container's shape
+ */
+const DefectOverlay: React.FC<DefectOverlayProps> = ({ image, defects, highlighted = null }) => {
+  const [size, setSize] = useState<{ width: number; height: number } | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const img = new Image();
+    img.onload = () => {
+      if (!cancelled) setSize({ width: img.naturalWidth, height: img.naturalHeight });
+    };
+    img.src = image;
+    return () => { cancelled = true; };
+  }, [image]);
+
+  const located = defects.map((defect, index) => ({ defect, index })).filter(({ defect }) => defect.box);
+  if (!size || located.length === 0) return null;
+
+  const fontSize = Math.max(size.width, size.height) * 0.022;
+
+  return (
+    <svg
+      className="absolute inset-0 w-full h-full pointer-events-none"
+      viewBox={`0 0 ${size.width} ${size.height}`}
+      preserveAspectRatio="xMidYMid slice"
+      aria-hidden="true"
+    >
+      {located.map(({ defect, index }) => {
+        const { x, y, width, height } = defect.box!;
+        const color = SEVERITY_COLORS[defect.severity];
+        const label = `${DEFECT_LABELS[defect.type]} • ${SEVERITY_LABELS[defect.severity]}`;
+        const isHighlighted = highlighted === index;
+        const dimmed = highlighted !== null && !isHighlighted;
+        const left = x * size.width;
+        const top = y * size.height;
+        // Label sits above the box, or inside it when the box touches the top edge
+        const labelTop = top >= fontSize * 1.6 ? top - fontSize * 1.6 : top;
+
+        return (
+          <g key={index} opacity={dimmed ? 0.35 : 1}>
+            <rect
+              x={left}
+              y={top}
+              width={width * size.width}
+              height={height * size.height}
+              fill={color}
+              fillOpacity={isHighlighted ? 0.25 : 0.12}
+              stroke={color}
+              strokeWidth={isHighlighted ? 3 : 2}
+              vectorEffect="non-scaling-stroke"
+              rx={fontSize * 0.3}
+            />
+            <rect
+              x={left}
+              y={labelTop}
+              width={label.length * fontSize * 0.58 + fontSize}
+              height={fontSize * 1.5}
+              fill={color}
+              rx={fontSize * 0.3}
+            />
+            <text
+              x={left + fontSize * 0.5}
+              y={labelTop + fontSize * 1.1}
+              fontSize={fontSize}
+              fontWeight={600}
+              fill="#fff"
+            >
+              {label}
+            </text>
+          </g>
+        );
+      })}
+    </svg>
+  );
+};
+
+export default DefectOverlay;
@@ -0,0 +1,319 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Plus, Minus, X } from 'lucide-react';
+import {
+  RoomDimensions,
+  OpeningType,
+  OPENING_PRESETS,
+  calculatePaintableArea,
+  createWall,
+} from '../services/roomArea';
+
+interface DimensionsEditorProps {
+  onChange: (area: number) => void;
+  disabled?: boolean;
+}
+
+const inputClass = `
+  w-full bg-white/10 border border-white/10 rounded-lg px-2.5 py-2
+  text-white placeholder-white/40 text-base tabular-nums
+  focus:ring-2 focus:ring-accent focus:border-transparent outline-none
+  transition-all disabled:opacity-40 disabled:cursor-not-allowed
+`;
+
+const OPENING_TYPES = Object.keys(OPENING_PRESETS) as OpeningType[];
+
+const DimensionsEditor: React.FC<DimensionsEditorProps> = ({ onChange, disabled = false }) => {
+  const [dimensions, setDimensions] = useState<RoomDimensions>(() => ({
+    walls: [createWall()],
+    openings: OPENING_TYPES.map(type => ({ type, count: 0 })),
+  }));
+  // Text of each metres field as typed (e.g. "0."), keyed like "<wall id>.length" or "ceiling.width"
+  // Only the parsed number goes into the dimensions, so a half-typed value is never wiped
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+
+  const breakdown = useMemo(() => calculatePaintableArea(dimensions), [dimensions]);
+
+  useEffect(() => {
+    onChange(breakdown.total);
+  }, [breakdown.total, onChange]);
+
+  const parseMetres = (value: string): number => {
+    const parsed = parseFloat(value);
+    return Number.isFinite(parsed) && parsed > 0 ? parsed : 0;
+  };
+
+  const fieldValue = (key: string, metres: number): string => drafts[key] ?? (metres ? String(metres) : '');
+
+  const editField = (key: string, value: string, apply: (metres: number) => void) => {
+    setDrafts(prev => ({ ...prev, [key]: value }));
+    apply(parseMetres(value));
+  };
+
+  // Forget the typed text of an area that was switched off, so it starts empty when switched back on
+  const clearDrafts = (prefix: string) => {
+    setDrafts(prev => Object.fromEntries(Object.entries(prev).filter(([key]) => !key.startsWith(`${prefix}.`))));
+  };
+
+  // Scroll input into view when keyboard appears on mobile
+  const handleFocus = (e: React.FocusEvent<HTMLInputElement>) => {
+    setTimeout(() => {
+      e.target.scrollIntoView({ behavior: 'smooth', block: 'center', inline: 'nearest' });
+    }, 300); // Delay to account for keyboard animation
+  };
+
+  const updateWall = (id: string, field: 'length' | 'height', value: string) => {
+    editField(`${id}.${field}`, value, metres => setDimensions(prev => ({
+      ...prev,
+      walls: prev.walls.map(w => (w.id === id ? { ...w, [field]: metres } : w)),
+    })));
+  };
+
+  const addWall = () => {
+    setDimensions(prev => {
+      const lastHeight = prev.walls[prev.walls.length - 1]?.height;
+      return { ...prev, walls: [...prev.walls, createWall(0, lastHeight || undefined)] };
+    });
+  };
+
+  const removeWall = (id: string) => {
+    setDimensions(prev => ({ ...prev, walls: prev.walls.filter(w => w.id !== id) }));
+    clearDrafts(id);
+  };
+
+  const changeOpening = (type: OpeningType, delta: number) => {
+    setDimensions(prev => ({
+      ...prev,
+      openings: prev.openings.map(o => (o.type === type ? { ...o, count: Math.max(0, o.count + delta) } : o)),
+    }));
+  };
+
+  const toggleCeiling = () => {
+    clearDrafts('ceiling');
+    setDimensions(prev => ({ ...prev, ceiling: prev.ceiling ? undefined : { length: 0, width: 0 } }));
+  };
+
+  const toggleParapet = () => {
+    clearDrafts('parapet');
+    setDimensions(prev => ({ ...prev, parapet: prev.parapet ? undefined : { length: 0, height: 1 } }));
+  };
+
+  const labelClass = 'text-xs sm:text-sm font-medium text-white/60 uppercase tracking-wide block mb-1.5 sm:mb-2';
+
+  return (
+    <div className="space-y-4">
+      {/* Walls */}
+      <div>
+        <span className={labelClass}>Walls (length × height)</span>
+        <div className="space-y-2">
+          {dimensions.walls.map((wall, idx) => (
+            <div key={wall.id} className="flex items-center gap-2">
+              <span className="text-xs text-white/50 w-12 flex-shrink-0">Wall {idx + 1}</span>
+              <input
+                type="number"
+                inputMode="decimal"
+                min="0"
+                step="0.1"
+                value={fieldValue(`${wall.id}.length`, wall.length)}
+                onChange={(e) => updateWall(wall.id, 'length', e.target.value)}
+                onFocus={handleFocus}
+                placeholder="Length"
+                disabled={disabled}
+                className={inputClass}
+                aria-label={`Wall ${idx + 1} length in metres`}
+              />
+              <span className="text-white/50">×</span>
+              <input
+                type="number"
+                inputMode="decimal"
+                min="0"
+                step="0.1"
+                value={fieldValue(`${wall.id}.height`, wall.height)}
+                onChange={(e) => updateWall(wall.id, 'height', e.target.value)}
+                onFocus={handleFocus}
+                placeholder="Height"
+                disabled={disabled}
+                className={inputClass}
+                aria-label={`Wall ${idx + 1} height in metres`}
+              />
+              <span className="text-white/50 text-sm">m</span>
+              <button
+                onClick={() => removeWall(wall.id)}
+                disabled={disabled || dimensions.walls.length === 1}
+                className="p-1.5 rounded-lg text-white/50 hover:text-white hover:bg-white/10 transition-colors disabled:opacity-30 disabled:cursor-not-allowed touch-manipulation"
+                aria-label={`Remove wall ${idx + 1}`}
+              >
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+        <button
+          onClick={addWall}
+          disabled={disabled}
+          className="mt-2 flex items-center gap-1.5 text-sm font-medium text-accent hover:text-white transition-colors disabled:opacity-40 touch-manipulation"
+        >
+          <Plus className="w-4 h-4" />
+          Add wall
+        </button>
+      </div>
+
+      {/* Doors & windows */}
+      <div>
+        <span className={labelClass}>Doors & windows (deducted)</span>
+        <div className="grid grid-cols-2 gap-2">
+          {dimensions.openings.map(({ type, count }) => {
+            const preset = OPENING_PRESETS[type];
+            return (
+              <div key={type} className="flex items-center justify-between bg-white/5 rounded-lg px-2.5 py-1.5">
+                <div className="min-w-0">
+                  <span className="block text-sm text-white truncate">{preset.label}</span>
+                  <span className="block text-[10px] text-white/50 tabular-nums">{preset.width} × {preset.height} m</span>
+                </div>
+                <div className="flex items-center gap-1.5">
+                  <button
+                    onClick={() => changeOpening(type, -1)}
+                    disabled={disabled || count === 0}
+                    className="w-7 h-7 rounded-md bg-white/10 hover:bg-white/20 flex items-center justify-center disabled:opacity-30 touch-manipulation"
+                    aria-label={`Remove one ${preset.label.toLowerCase()}`}
+                  >
+                    <Minus className="w-3.5 h-3.5" />
+                  </button>
+                  <span className="w-5 text-center text-sm tabular-nums">{count}</span>
+                  <button
+                    onClick={() => changeOpening(type, 1)}
+                    disabled={disabled}
+                    className="w-7 h-7 rounded-md bg-white/10 hover:bg-white/20 flex items-center justify-center disabled:opacity-30 touch-manipulation"
+                    aria-label={`Add one ${preset.label.toLowerCase()}`}
+                  >
+                    <Plus className="w-3.5 h-3.5" />
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      {/* Extras */}
+      <div className="space-y-2">
+        <label className="flex items-center gap-2 text-sm text-white/80 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={!!dimensions.ceiling}
+            onChange={toggleCeiling}
+            disabled={disabled}
+            className="accent-[var(--color-accent)]"
+          />
+          Paint the ceiling too
+        </label>
+        {dimensions.ceiling && (
+          <div className="flex items-center gap-2 pl-6">
+            <input
+              type="number"
+              inputMode="decimal"
+              min="0"
+              step="0.1"
+              value={fieldValue('ceiling.length', dimensions.ceiling.length)}
+              onChange={(e) => editField('ceiling.length', e.target.value, length => setDimensions(prev => ({ ...prev, ceiling: { ...prev.ceiling!, length } })))}
+              onFocus={handleFocus}
+              placeholder="Length"
+              disabled={disabled}
+              className={inputClass}
+              aria-label="Ceiling length in metres"
+            />
+            <span className="text-white/50">×</span>
+            <input
+              type="number"
+              inputMode="decimal"
+              min="0"
+              step="0.1"
+              value={fieldValue('ceiling.width', dimensions.ceiling.width)}
+              onChange={(e) => editField('ceiling.width', e.target.value, width => setDimensions(prev => ({ ...prev, ceiling: { ...prev.ceiling!, width } })))}
+              onFocus={handleFocus}
+              placeholder="Width"
+              disabled={disabled}
+              className={inputClass}
+              aria-label="Ceiling width in metres"
+            />
+            <span className="text-white/50 text-sm">m</span>
+          </div>
+        )}
+
+        <label className="flex items-center gap-2 text-sm text-white/80 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={!!dimensions.parapet}
+            onChange={toggleParapet}
+            disabled={disabled}
+            className="accent-[var(--color-accent)]"
+          />
+          Add parapet / fence wall (both sides)
+        </label>
+        {dimensions.parapet && (
+          <div className="flex items-center gap-2 pl-6">
+            <input
+              type="number"
+              inputMode="decimal"
+              min="0"
+              step="0.1"
+              value={fieldValue('parapet.length', dimensions.parapet.length)}
+              onChange={(e) => editField('parapet.length', e.target.value, length => setDimensions(prev => ({ ...prev, parapet: { ...prev.parapet!, length } })))}
+              onFocus={handleFocus}
+              placeholder="Length"
+              disabled={disabled}
+              className={inputClass}
+              aria-label="Parapet length in metres"
+            />
+            <span className="text-white/50">×</span>
+            <input
+              type="number"
+              inputMode="decimal"
+              min="0"
+              step="0.1"
+              value={fieldValue('parapet.height', dimensions.parapet.height)}
+              onChange={(e) => editField('parapet.height', e.target.value, height => setDimensions(prev => ({ ...prev, parapet: { ...prev.parapet!, height } })))}
+              onFocus={handleFocus}
+              placeholder="Height"
+              disabled={disabled}
+              className={inputClass}
+              aria-label="Parapet height in metres"
+            />
+            <span className="text-white/50 text-sm">m</span>
+          </div>
+        )}
+      </div>
+
+      {/* Computed area */}
+      <div className="bg-white/5 rounded-lg sm:rounded-xl p-3 text-sm tabular-nums">
+        <div className="flex justify-between text-white/60">
+          <span>Walls</span>
+          <span>{breakdown.wallArea} m²</span>
+        </div>
+        {breakdown.openingsArea > 0 && (
+          <div className="flex justify-between text-white/60">
+            <span>Doors & windows</span>
+            <span>−{breakdown.openingsArea} m²</span>
+          </div>
+        )}
+        {breakdown.ceilingArea > 0 && (
+          <div className="flex justify-between text-white/60">
+            <span>Ceiling</span>
+            <span>+{breakdown.ceilingArea} m²</span>
+          </div>
+        )}
+        {breakdown.parapetArea > 0 && (
+          <div className="flex justify-between text-white/60">
+            <span>Parapet / fence</span>
+            <span>+{breakdown.parapetArea} m²</span>
+          </div>
+        )}
+        <div className="flex justify-between font-semibold text-white border-t border-white/10 mt-2 pt-2">
+          <span>Paintable area</span>
+          <span>{breakdown.total} m²</span>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DimensionsEditor;
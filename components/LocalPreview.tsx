@@ -0,0 +1,372 @@
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { X, Brush, PaintBucket, Eraser, Wand2, Trash2, Eye, Loader2 } from 'lucide-react';
+import { PaletteColor } from '../types';
+import {
+  WallMask,
+  Point,
+  PREVIEW_MAX_SIDE,
+  createMask,
+  isMaskEmpty,
+  loadImageData,
+  toLabPixels,
+  stampBrush,
+  strokeBrush,
+  floodFillMask,
+  detectWallMask,
+  recolorWithMask,
+} from '../services/localRecolor';
+
+type Tool = 'brush' | 'fill' | 'erase';
+
+interface LocalPreviewProps {
+  isOpen: boolean;
+  onClose: () => void;
+  image: string;
+  colors: PaletteColor[]; // Swatches offered in the preview
+  initialColor: PaletteColor | null;
+  mask: WallMask | null; // Kept by the parent so the walls stay marked between openings
+  onMaskChange: (mask: WallMask) => void;
+}
+
+const TOOLS: { id: Tool; label: string; icon: typeof Brush }[] = [
+  { id: 'brush', label: 'Brush', icon: Brush },
+  { id: 'fill', label: 'Tap fill', icon: PaintBucket },
+  { id: 'erase', label: 'Erase', icon: Eraser },
+];
+
+/**
+ * Free on-device preview: mark the walls, see any color on them instantly
+ * Runs entirely on a canvas, so it works with no network and no render quota left
+ */
+const LocalPreview: React.FC<LocalPreviewProps> = ({
+  isOpen,
+  onClose,
+  image,
+  colors,
+  initialColor,
+  mask,
+  onMaskChange,
+}) => {
+  const [imageData, setImageData] = useState<ImageData | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [tool, setTool] = useState<Tool>('brush');
+  const [brushSize, setBrushSize] = useState(24);
+  const [color, setColor] = useState<PaletteColor | null>(initialColor || colors[0] || null);
+  const [showOriginal, setShowOriginal] = useState(false);
+  const [maskVersion, setMaskVersion] = useState(0); // Bumped after each edit to re-render the recolor
+  const [hasMask, setHasMask] = useState(false);
+
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const overlayRef = useRef<HTMLCanvasElement | null>(null);
+  const labRef = useRef<Float32Array | null>(null);
+  const maskRef = useRef<WallMask | null>(null);
+  const lastPointRef = useRef<Point | null>(null);
+  const savedMaskRef = useRef<WallMask | null>(mask); // Latest mask from the parent, read when the photo loads
+
+  // Prevent body scroll when modal is open
+  useEffect(() => {
+    if (isOpen) {
+      document.body.style.overflow = 'hidden';
+    } else {
+      document.body.style.overflow = '';
+    }
+    return () => {
+      document.body.style.overflow = '';
+    };
+  }, [isOpen]);
+
+  useEffect(() => {
+    if (isOpen && initialColor) setColor(initialColor);
+  }, [isOpen, initialColor]);
+
+  useEffect(() => {
+    savedMaskRef.current = mask;
+  }, [mask]);
+
+  // Decode the photo at working resolution; reuse the saved mask when it fits
+  useEffect(() => {
+    if (!isOpen) return;
+    let cancelled = false;
+    setImageData(null);
+    setLoadError(null);
+    loadImageData(image, PREVIEW_MAX_SIDE)
+      .then(data => {
+        if (cancelled) return;
+        labRef.current = toLabPixels(data);
+        const saved = savedMaskRef.current;
+        maskRef.current = saved && saved.width === data.width && saved.height === data.height
+          ? saved
+          : createMask(data.width, data.height);
+        setHasMask(!isMaskEmpty(maskRef.current));
+        setImageData(data);
+      })
+      .catch((error: Error) => {
+        if (!cancelled) setLoadError(error.message);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, image]);
+
+  // Paint the recolored (or original) photo
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx || !imageData || !maskRef.current || !labRef.current) return;
+    canvas.width = imageData.width;
+    canvas.height = imageData.height;
+    const showRecolor = !showOriginal && color && hasMask;
+    ctx.putImageData(showRecolor ? recolorWithMask(imageData, maskRef.current, color.hex, labRef.current) : imageData, 0, 0);
+  }, [imageData, color, showOriginal, maskVersion, hasMask]);
+
+  // Tint of the mask while a stroke is in progress (the recolor catches up on release)
+  const drawOverlay = useCallback(() => {
+    const overlay = overlayRef.current;
+    const ctx = overlay?.getContext('2d');
+    const currentMask = maskRef.current;
+    if (!overlay || !ctx || !currentMask) return;
+    overlay.width = currentMask.width;
+    overlay.height = currentMask.height;
+    const tint = ctx.createImageData(currentMask.width, currentMask.height);
+    for (let p = 0, i = 0; p < currentMask.data.length; p++, i += 4) {
+      // Accent orange (#c2410c), semi-transparent
+      tint.data[i] = 194;
+      tint.data[i + 1] = 65;
+      tint.data[i + 2] = 12;
+      tint.data[i + 3] = currentMask.data[p] * 0.45;
+    }
+    ctx.putImageData(tint, 0, 0);
+  }, []);
+
+  const clearOverlay = useCallback(() => {
+    const overlay = overlayRef.current;
+    overlay?.getContext('2d')?.clearRect(0, 0, overlay.width, overlay.height);
+  }, []);
+
+  const commitMask = useCallback(() => {
+    if (!maskRef.current) return;
+    clearOverlay();
+    setHasMask(!isMaskEmpty(maskRef.current));
+    setMaskVersion(version => version + 1);
+    onMaskChange(maskRef.current);
+  }, [clearOverlay, onMaskChange]);
+
+  // Pointer position in working-resolution pixels
+  const toImagePoint = (e: React.PointerEvent<HTMLCanvasElement>): Point => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return {
+      x: ((e.clientX - rect.left) / rect.width) * e.currentTarget.width,
+      y: ((e.clientY - rect.top) / rect.height) * e.currentTarget.height,
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!maskRef.current || !labRef.current) return;
+    const point = toImagePoint(e);
+    setShowOriginal(false);
+    if (tool === 'fill') {
+      floodFillMask(maskRef.current, labRef.current, point);
+      commitMask();
+      return;
+    }
+    e.currentTarget.setPointerCapture(e.pointerId);
+    lastPointRef.current = point;
+    stampBrush(maskRef.current, point, brushSize, tool === 'erase');
+    drawOverlay();
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!lastPointRef.current || !maskRef.current) return;
+    const point = toImagePoint(e);
+    strokeBrush(maskRef.current, lastPointRef.current, point, brushSize, tool === 'erase');
+    lastPointRef.current = point;
+    drawOverlay();
+  };
+
+  const handlePointerUp = () => {
+    if (!lastPointRef.current) return;
+    lastPointRef.current = null;
+    commitMask();
+  };
+
+  const handleAutoDetect = () => {
+    if (!imageData || !labRef.current) return;
+    maskRef.current = detectWallMask(imageData, labRef.current);
+    commitMask();
+  };
+
+  const handleClear = () => {
+    if (!imageData) return;
+    maskRef.current = createMask(imageData.width, imageData.height);
+    commitMask();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Escape') {
+      onClose();
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <>
+      {/* Backdrop */}
+      <div
+        className="fixed inset-0 bg-ink/60 backdrop-blur-sm z-40 animate-fade-in"
+        onClick={onClose}
+        aria-hidden="true"
+      />
+
+      {/* Modal */}
+      <div
+        className="fixed inset-0 z-50 flex items-center justify-center p-4 sm:p-6 safe-insets"
+        onKeyDown={handleKeyDown}
+        tabIndex={-1}
+      >
+        <div
+          className="bg-paper rounded-2xl sm:rounded-3xl shadow-2xl w-full max-w-4xl max-h-[calc(100vh-env(safe-area-inset-top)-env(safe-area-inset-bottom)-2rem)] flex flex-col animate-reveal-up"
+          onClick={(e) => e.stopPropagation()}
+        >
+          {/* Header */}
+          <div className="flex items-center justify-between p-4 sm:p-6 border-b border-stone-200">
+            <div>
+              <h2 className="text-xl sm:text-2xl font-bold text-ink">Quick Preview</h2>
+              <p className="text-sm text-ink-subtle mt-0.5">Free and instant - mark the walls, then try colors</p>
+            </div>
+            <button
+              onClick={onClose}
+              className="w-11 h-11 min-w-[44px] min-h-[44px] rounded-full bg-stone-100 hover:bg-stone-200 flex items-center justify-center transition-colors touch-manipulation"
+              aria-label="Close quick preview"
+            >
+              <X className="w-5 h-5 text-ink" />
+            </button>
+          </div>
+
+          {/* Tools */}
+          <div className="flex flex-wrap items-center gap-2 p-3 sm:px-6 border-b border-stone-200">
+            <div className="flex bg-paper-warm rounded-xl p-1" role="radiogroup" aria-label="Mask tool">
+              {TOOLS.map(({ id, label, icon: Icon }) => (
+                <button
+                  key={id}
+                  role="radio"
+                  aria-checked={tool === id}
+                  onClick={() => setTool(id)}
+                  className={`flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm font-medium transition-colors touch-manipulation ${
+                    tool === id ? 'bg-accent text-white' : 'text-ink-subtle hover:text-ink'
+                  }`}
+                >
+                  <Icon className="w-4 h-4" />
+                  {label}
+                </button>
+              ))}
+            </div>
+            {tool !== 'fill' && (
+              <label className="flex items-center gap-2 text-sm text-ink-subtle">
+                Size
+                <input
+                  type="range"
+                  min={6}
+                  max={80}
+                  value={brushSize}
+                  onChange={(e) => setBrushSize(Number(e.target.value))}
+                  className="w-24 accent-accent"
+                  aria-label="Brush size"
+                />
+              </label>
+            )}
+            <div className="flex items-center gap-1 ml-auto">
+              <button
+                onClick={handleAutoDetect}
+                disabled={!imageData}
+                className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm font-medium text-ink-subtle hover:bg-stone-100 transition-colors touch-manipulation disabled:opacity-40"
+                title="Mark light, plain surfaces as walls"
+              >
+                <Wand2 className="w-4 h-4" />
+                Auto
+              </button>
+              <button
+                onClick={handleClear}
+                disabled={!hasMask}
+                className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm font-medium text-ink-subtle hover:bg-stone-100 transition-colors touch-manipulation disabled:opacity-40"
+              >
+                <Trash2 className="w-4 h-4" />
+                Clear
+              </button>
+              <button
+                onPointerDown={() => setShowOriginal(true)}
+                onPointerUp={() => setShowOriginal(false)}
+                onPointerLeave={() => setShowOriginal(false)}
+                disabled={!hasMask}
+                className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm font-medium text-ink-subtle hover:bg-stone-100 transition-colors touch-manipulation disabled:opacity-40 select-none"
+                title="Hold to see the original"
+              >
+                <Eye className="w-4 h-4" />
+                Before
+              </button>
+            </div>
+          </div>
+
+          {/* Canvas */}
+          <div className="flex-1 min-h-0 overflow-auto p-4 sm:p-6 flex items-center justify-center bg-paper-warm/50">
+            {loadError ? (
+              <p className="text-sm text-red-700">{loadError}</p>
+            ) : !imageData ? (
+              <Loader2 className="w-6 h-6 text-accent animate-spin" />
+            ) : (
+              <div className="relative max-w-full">
+                <canvas ref={canvasRef} className="block max-w-full max-h-[55vh] w-auto h-auto rounded-xl shadow-md" />
+                <canvas
+                  ref={overlayRef}
+                  width={imageData.width}
+                  height={imageData.height}
+                  onPointerDown={handlePointerDown}
+                  onPointerMove={handlePointerMove}
+                  onPointerUp={handlePointerUp}
+                  onPointerCancel={handlePointerUp}
+                  className={`absolute inset-0 w-full h-full rounded-xl touch-none ${tool === 'fill' ? 'cursor-pointer' : 'cursor-crosshair'}`}
+                  aria-label="Photo - draw over the walls to paint them"
+                />
+                {!hasMask && (
+                  <div className="absolute inset-x-0 bottom-3 flex justify-center pointer-events-none">
+                    <span className="bg-ink/70 text-white text-sm px-3 py-1.5 rounded-full">
+                      Brush over the walls or tap one with Tap fill
+                    </span>
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+
+          {/* Colors */}
+          <div className="p-4 sm:px-6 border-t border-stone-200">
+            <div className="flex gap-2 overflow-x-auto custom-scrollbar pb-1" role="radiogroup" aria-label="Preview color">
+              {colors.map(swatch => {
+                const isActive = swatch.hex.toUpperCase() === color?.hex.toUpperCase();
+                return (
+                  <button
+                    key={swatch.hex}
+                    role="radio"
+                    aria-checked={isActive}
+                    onClick={() => setColor(swatch)}
+                    title={swatch.name}
+                    aria-label={`Preview ${swatch.name}`}
+                    className={`w-10 h-10 min-w-[40px] rounded-full border-2 border-ink/10 transition-all touch-manipulation ${
+                      isActive ? 'ring-2 ring-offset-2 ring-accent scale-110' : 'hover:scale-105'
+                    }`}
+                    style={{ backgroundColor: swatch.hex }}
+                  />
+                );
+              })}
+            </div>
+            <p className="text-xs sm:text-sm text-ink-subtle mt-2">
+              {color ? `${color.name} • ` : ''}Rough preview on your device. Use Visualize for the realistic AI render.
+            </p>
+          </div>
+        </div>
+      </div>
+    </>
+  );
+};
+
+export default LocalPreview;
@@ -0,0 +1,125 @@
+import React, { useRef, useState } from 'react';
+import { Store as StoreIcon, Upload, Trash2 } from 'lucide-react';
+import { Store, getStores, importPriceListCsv, removeStore } from '../services/priceList';
+import { formatCatalogIssue } from '../data/catalogLoader';
+
+interface PriceListPanelProps {
+  selectedStoreId: string | null; // null = cheapest across all stores
+  onSelectStore: (storeId: string | null) => void;
+  onPriceListsChanged: () => void;
+  pricedCount: number;
+  estimatedCount: number;
+}
+
+const PriceListPanel: React.FC<PriceListPanelProps> = ({
+  selectedStoreId,
+  onSelectStore,
+  onPriceListsChanged,
+  pricedCount,
+  estimatedCount,
+}) => {
+  const [stores, setStores] = useState<Store[]>(() => getStores());
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow re-importing the same file
+    if (!file) return;
+
+    try {
+      const text = await file.text();
+      // Store name defaults to the file name when the CSV doesn't name one
+      const result = importPriceListCsv(text, file.name, file.name.replace(/\.csv$/i, ''));
+      setStores(getStores());
+      onPriceListsChanged();
+
+      if (result.imported === 0) {
+        setMessage({
+          text: result.issues.length > 0 ? formatCatalogIssue(result.issues[0]) : 'No prices found in file.',
+          isError: true,
+        });
+      } else {
+        const skipped = result.issues.length > 0 ? `, skipped ${result.issues.length} invalid row${result.issues.length === 1 ? '' : 's'}` : '';
+        setMessage({ text: `Imported ${result.imported} price${result.imported === 1 ? '' : 's'}${skipped}.`, isError: false });
+        if (result.issues.length > 0) {
+          console.warn('Price list import issues:\n' + result.issues.map(formatCatalogIssue).join('\n'));
+        }
+      }
+    } catch (error) {
+      console.error(error);
+      setMessage({ text: 'Could not read that file. Please use a CSV export.', isError: true });
+    }
+  };
+
+  const handleRemove = () => {
+    if (!selectedStoreId) return;
+    removeStore(selectedStoreId);
+    setStores(getStores());
+    onSelectStore(null);
+    onPriceListsChanged();
+  };
+
+  return (
+    <div className="bg-paper-warm p-5 rounded-2xl mb-6">
+      <div className="flex items-center gap-2 mb-3">
+        <StoreIcon className="w-4 h-4 text-accent" />
+        <span className="text-sm font-medium text-ink-muted">Store Prices</span>
+      </div>
+
+      {stores.length > 0 && (
+        <div className="flex items-center gap-2 mb-3">
+          <select
+            value={selectedStoreId ?? ''}
+            onChange={(e) => onSelectStore(e.target.value || null)}
+            className="flex-1 min-w-0 bg-white border border-stone-200 rounded-lg px-3 py-2 text-sm text-ink focus:border-accent focus:ring-2 focus:ring-accent/20 outline-none"
+            aria-label="Choose store for prices"
+          >
+            <option value="">Cheapest available</option>
+            {stores.map(store => (
+              <option key={store.id} value={store.id}>{store.name}</option>
+            ))}
+          </select>
+          {selectedStoreId && (
+            <button
+              onClick={handleRemove}
+              className="p-2 rounded-lg text-ink-subtle hover:text-red-600 hover:bg-red-50 transition-colors touch-manipulation"
+              aria-label="Remove this store's price list"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          )}
+        </div>
+      )}
+
+      <p className="text-xs text-ink-subtle mb-3">
+        {pricedCount > 0
+          ? `${pricedCount} item${pricedCount === 1 ? '' : 's'} priced from store lists${estimatedCount > 0 ? `, ${estimatedCount} estimated` : ''}.`
+          : 'All prices are estimates. Import a store price list for real prices.'}
+      </p>
+
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".csv,text/csv"
+        onChange={handleFile}
+        className="hidden"
+      />
+      <button
+        onClick={() => fileInputRef.current?.click()}
+        className="w-full py-2.5 bg-white border border-stone-200 rounded-xl text-sm font-medium text-ink hover:border-accent transition-colors flex items-center justify-center gap-2 touch-manipulation"
+      >
+        <Upload className="w-4 h-4" />
+        Import price list (CSV)
+      </button>
+
+      {message && (
+        <p className={`mt-2 text-xs ${message.isError ? 'text-red-600' : 'text-emerald-700'}`}>
+          {message.text}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default PriceListPanel;
@@ -1,9 +1,18 @@
 import React from 'react';
-import { ShoppingList as ShoppingListType } from '../types';
-import { ShoppingCart, Hammer, Phone, ArrowLeft, Check, MessageCircle } from 'lucide-react';
+import { PaletteColor, ShoppingList as ShoppingListType } from '../types';
+import ColorEquivalents from './ColorEquivalents';
+import PriceListPanel from './PriceListPanel';
+import { TIER_LABELS } from '../data/paintProducts';
+import { ROLE_LABELS } from '../services/colorScheme';
+import { ShoppingCart, Hammer, Phone, ArrowLeft, Check, MessageCircle, Loader2, Wallet, AlertTriangle, ClipboardList } from 'lucide-react';
 
 interface ShoppingListProps {
   list: ShoppingListType;
+  color?: PaletteColor | null; // Selected paint color, used to suggest cross-brand swaps
+  isRefiningNotes?: boolean; // AI installer notes still loading
+  selectedStoreId: string | null;
+  onSelectStore: (storeId: string | null) => void;
+  onPriceListsChanged: () => void;
   onBack: () => void;
 }
 
@@ -15,8 +24,20 @@ const categoryColors: Record<string, { bg: string; text: string; dot: string }>
   Other: { bg: 'bg-stone-50', text: 'text-stone-600', dot: 'bg-stone-400' },
 };
 
-const ShoppingList: React.FC<ShoppingListProps> = ({ list, onBack }) => {
+const ShoppingList: React.FC<ShoppingListProps> = ({
+  list,
+  color,
+  isRefiningNotes = false,
+  selectedStoreId,
+  onSelectStore,
+  onPriceListsChanged,
+  onBack,
+}) => {
   const categories = ['Paint', 'Primer', 'Hardware', 'Preparation', 'Other'];
+  const pricedCount = list.items.filter(i => i.priceSource).length;
+  const budget = list.budget;
+  // Compare against the current store's prices - the store may have changed since planning
+  const overBudgetBy = budget?.budgetGHS ? list.totalMaterialCostGHS - budget.budgetGHS : 0;
 
   return (
     <div className="w-full max-w-6xl mx-auto px-4 py-8 md:px-8">
@@ -40,12 +61,81 @@ const ShoppingList: React.FC<ShoppingListProps> = ({ list, onBack }) => {
              <div>
               <h1 className="text-3xl font-bold text-ink mb-1">Your Materials</h1>
               <p className="text-ink-subtle">Everything you need for a professional finish</p>
+              {list.calculation && (
+                <p className="text-xs text-ink-subtle mt-1 tabular-nums">
+                  {list.calculation.paintLitres}L paint for {list.calculation.coats} coat{list.calculation.coats === 1 ? '' : 's'}
+                  {list.calculation.needsPrimer && ` + ${list.calculation.primerLitres}L primer`}
+                  {' '}• surface factor ×{list.calculation.porosityFactor}
+                </p>
+              )}
+              {list.calculation?.roles && (
+                <p className="text-xs text-ink-subtle mt-0.5 tabular-nums">
+                  {list.calculation.roles
+                    .map(r => `${ROLE_LABELS[r.role]} ${r.area} m² (${r.paintLitres}L)`)
+                    .join(' • ')}
+                </p>
+              )}
              </div>
             <div className="w-14 h-14 rounded-2xl bg-accent-soft/40 flex items-center justify-center">
               <ShoppingCart className="w-6 h-6 text-accent" />
              </div>
           </div>
 
+          {/* Budget summary */}
+          {budget && (budget.budgetGHS || budget.tradeOffs.length > 0) && (
+            <div
+              className={`rounded-2xl p-5 animate-reveal-up ${overBudgetBy > 0 ? 'bg-red-50 border border-red-100' : 'bg-paper-warm'}`}
+            >
+              <div className="flex items-start gap-3">
+                {overBudgetBy > 0
+                  ? <AlertTriangle className="w-5 h-5 text-red-600 flex-shrink-0 mt-0.5" />
+                  : <Wallet className="w-5 h-5 text-accent flex-shrink-0 mt-0.5" />}
+                <div className="min-w-0">
+                  <p className="font-semibold text-ink">
+                    {TIER_LABELS[budget.tier]} plan
+                    {budget.budgetGHS && (
+                      <span className="font-normal text-ink-muted tabular-nums">
+                        {' '}• ₵{list.totalMaterialCostGHS.toLocaleString()} of ₵{budget.budgetGHS.toLocaleString()} budget
+                      </span>
+                    )}
+                  </p>
+                  {overBudgetBy > 0 && (
+                    <p className="text-sm text-red-700 mt-1">
+                      {budget.withinBudget ? 'At these store prices this plan is' : 'Even the cheapest option is'}
+                      {' '}₵{overBudgetBy.toLocaleString(undefined, { maximumFractionDigits: 2 })} over budget.
+                      {!budget.withinBudget && budget.coverableArea !== undefined && ` Your budget covers about ${budget.coverableArea} m² - consider painting in stages.`}
+                    </p>
+                  )}
+                  {budget.tradeOffs.length > 0 && (
+                    <ul className="mt-2 space-y-1">
+                      {budget.tradeOffs.map((tradeOff, idx) => (
+                        <li key={idx} className="text-sm text-ink-muted flex gap-2">
+                          <span className="text-ink-subtle">•</span>
+                          <span>{tradeOff}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              </div>
+            </div>
+          )}
+
+          {/* Prep for the defects found in the photo */}
+          {list.prepSteps && list.prepSteps.length > 0 && (
+            <div className="bg-paper-elevated rounded-2xl border border-stone-100 p-5 animate-reveal-up">
+              <div className="flex items-center gap-2 mb-3">
+                <ClipboardList className="w-4 h-4 text-accent" />
+                <h2 className="text-xs font-bold text-ink uppercase tracking-widest">Surface prep</h2>
+              </div>
+              <ol className="space-y-2 list-decimal list-inside text-sm text-ink-muted">
+                {list.prepSteps.map(step => (
+                  <li key={step}>{step}</li>
+                ))}
+              </ol>
+            </div>
+          )}
+
           {/* Category Sections */}
           <div className="space-y-8">
             {categories.map((category, catIdx) => {
@@ -82,6 +172,9 @@ const ShoppingList: React.FC<ShoppingListProps> = ({ list, onBack }) => {
                               </div>
                               <div>
                               <h3 className="font-semibold text-ink leading-tight">{item.name}</h3>
+                              {item.sku && (
+                                <p className="text-xs text-ink-subtle mt-0.5 tabular-nums">SKU {item.sku}</p>
+                              )}
                               <p className="text-sm text-ink-subtle mt-1">{item.reason}</p>
                               </div>
                             </div>
@@ -93,14 +186,31 @@ const ShoppingList: React.FC<ShoppingListProps> = ({ list, onBack }) => {
                             `}>
                                 {item.quantity} {item.unit}
                               </span>
-                            <span className="font-bold text-ink text-lg tabular-nums">
+                            <div className="text-right">
+                              <span className="block font-bold text-ink text-lg tabular-nums">
                                 ₵{item.estimatedPriceGHS.toLocaleString()}
                               </span>
+                              <span className="block text-[10px] sm:text-xs text-ink-subtle whitespace-nowrap">
+                                {item.priceSource
+                                  ? `${item.priceSource.storeName} • ${item.priceSource.effectiveDate}`
+                                  : 'Estimate'}
+                              </span>
+                            </div>
                             </div>
                           </div>
                         </div>
                       ))}
                     </div>
+
+                  {/* Swap suggestions when the chosen color is out of stock */}
+                  {category === 'Paint' && color && (
+                    <div className="mt-3 bg-paper-warm rounded-2xl border border-stone-100 p-4">
+                      <ColorEquivalents
+                        color={color}
+                        title={`Out of stock? Ask for one of these instead of ${color.name}`}
+                      />
+                    </div>
+                  )}
                 </section>
                 );
               })}
@@ -113,7 +223,9 @@ const ShoppingList: React.FC<ShoppingListProps> = ({ list, onBack }) => {
           >
             <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-6">
             <div>
-                <p className="text-white/60 font-medium text-sm mb-1">Estimated Material Cost</p>
+                <p className="text-white/60 font-medium text-sm mb-1">
+                  {pricedCount === list.items.length && pricedCount > 0 ? 'Material Cost' : 'Estimated Material Cost'}
+                </p>
                 <p className="text-4xl font-bold tracking-tight">
                   ₵{list.totalMaterialCostGHS.toLocaleString()}
                 </p>
@@ -141,6 +253,15 @@ const ShoppingList: React.FC<ShoppingListProps> = ({ list, onBack }) => {
               <p className="text-sm text-ink-subtle">Get it done by professionals</p>
             </div>
             
+            {/* Store price lists */}
+            <PriceListPanel
+              selectedStoreId={selectedStoreId}
+              onSelectStore={onSelectStore}
+              onPriceListsChanged={onPriceListsChanged}
+              pricedCount={pricedCount}
+              estimatedCount={list.items.length - pricedCount}
+            />
+
             {/* Labor cost */}
             <div className="bg-paper-warm p-5 rounded-2xl mb-6">
               <div className="flex justify-between items-center mb-3">
@@ -151,6 +272,12 @@ const ShoppingList: React.FC<ShoppingListProps> = ({ list, onBack }) => {
               <p className="text-xs text-ink-subtle italic leading-relaxed">
                 "{list.installationNotes}"
               </p>
+              {isRefiningNotes && (
+                <p className="mt-2 text-xs text-accent flex items-center gap-1.5">
+                  <Loader2 className="w-3 h-3 animate-spin" />
+                  Adding installer tips...
+                </p>
+              )}
             </div>
 
             {/* Action buttons */}
@@ -0,0 +1,145 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { BarChart3, ChevronDown, RefreshCw, Trash2 } from 'lucide-react';
+import { ModelOperation } from '../types';
+import { UsageSummary, UsageTotals, USAGE_EVENT, getUsageSummary, clearUsage } from '../services/usageLedger';
+import { getPromptVariant } from '../services/promptExperiment';
+
+const OPERATION_LABELS: Record<ModelOperation, string> = {
+  analysis: 'Analysis',
+  visualization: 'Renders',
+  notes: 'Notes',
+};
+
+const formatCost = (usd: number): string => `$${usd < 1 ? usd.toFixed(4) : usd.toFixed(2)}`;
+
+const formatTokens = (tokens: number): string =>
+  tokens >= 10_000 ? `${(tokens / 1000).toFixed(1)}k` : tokens.toLocaleString();
+
+/**
+ * One ledger row: calls, tokens in (cached) / out, cost
+ */
+const TotalsRow: React.FC<{ label: string; totals: UsageTotals }> = ({ label, totals }) => (
+  <tr className="border-t border-stone-100">
+    <td className="py-1.5 pr-2 text-ink">{label}</td>
+    <td className="py-1.5 px-2 text-right">{totals.calls}</td>
+    <td className="py-1.5 px-2 text-right">
+      {formatTokens(totals.promptTokens)}
+      {totals.cachedTokens > 0 && <span className="text-ink-subtle"> ({formatTokens(totals.cachedTokens)})</span>}
+    </td>
+    <td className="py-1.5 px-2 text-right">{formatTokens(totals.outputTokens)}</td>
+    <td className="py-1.5 pl-2 text-right font-medium text-ink" title={totals.unpricedCalls > 0 ? `${totals.unpricedCalls} call(s) with unknown pricing not included` : undefined}>
+      {formatCost(totals.costUSD)}{totals.unpricedCalls > 0 && '*'}
+    </td>
+  </tr>
+);
+
+/**
+ * Admin-only token and cost ledger (open the app with ?admin)
+ */
+const UsagePanel: React.FC = () => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [summary, setSummary] = useState<UsageSummary | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(() => {
+    getUsageSummary()
+      .then(result => {
+        setSummary(result);
+        setError(null);
+      })
+      .catch(err => {
+        console.warn('Could not read usage ledger:', err);
+        setError('Usage ledger unavailable in this browser.');
+      });
+  }, []);
+
+  // Live totals - today's cost shows in the header even while collapsed
+  useEffect(() => {
+    refresh();
+    window.addEventListener(USAGE_EVENT, refresh);
+    return () => window.removeEventListener(USAGE_EVENT, refresh);
+  }, [refresh]);
+
+  const handleClear = async () => {
+    if (!window.confirm('Delete all recorded usage?')) return;
+    await clearUsage().catch(err => console.warn('Could not clear usage ledger:', err));
+  };
+
+  return (
+    <div className="fixed bottom-4 right-4 z-30 w-[calc(100vw-2rem)] max-w-md bg-paper-elevated rounded-2xl shadow-xl border border-stone-200 text-xs sm:text-sm">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center justify-between gap-2 px-4 py-3 touch-manipulation"
+        aria-expanded={isOpen}
+      >
+        <span className="flex items-center gap-2 font-semibold text-ink">
+          <BarChart3 className="w-4 h-4 text-accent" />
+          AI usage
+          {summary && <span className="font-normal text-ink-subtle tabular-nums">• today {formatCost(summary.today.costUSD)}</span>}
+        </span>
+        <ChevronDown className={`w-4 h-4 text-ink-subtle transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+      </button>
+
+      {isOpen && (
+        <div className="px-4 pb-4">
+          {error ? (
+            <p className="text-red-600">{error}</p>
+          ) : !summary ? (
+            <p className="text-ink-subtle">Loading…</p>
+          ) : (
+            <>
+              <table className="w-full tabular-nums text-ink-muted">
+                <thead>
+                  <tr className="text-ink-subtle text-left">
+                    <th className="font-medium pb-1 pr-2"></th>
+                    <th className="font-medium pb-1 px-2 text-right">Calls</th>
+                    <th className="font-medium pb-1 px-2 text-right">In (cached)</th>
+                    <th className="font-medium pb-1 px-2 text-right">Out</th>
+                    <th className="font-medium pb-1 pl-2 text-right">Cost</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  <TotalsRow label="This session" totals={summary.session} />
+                  <TotalsRow label="Today" totals={summary.today} />
+                  {(Object.keys(OPERATION_LABELS) as ModelOperation[])
+                    .filter(operation => summary.todayByOperation[operation].calls > 0)
+                    .map(operation => (
+                      <TotalsRow key={operation} label={`↳ ${OPERATION_LABELS[operation]}`} totals={summary.todayByOperation[operation]} />
+                    ))}
+                  {summary.earlierDays.map(({ day, totals }) => (
+                    <TotalsRow key={day} label={day} totals={totals} />
+                  ))}
+                </tbody>
+              </table>
+              <div className="flex items-center justify-between mt-3">
+                <p className="text-ink-subtle">
+                  Estimated from list prices (data/modelPricing.ts)
+                  <br />
+                  Prompt variant this session: <span className="font-medium text-ink">{getPromptVariant()}</span>
+                </p>
+                <div className="flex gap-1">
+                  <button
+                    onClick={refresh}
+                    className="p-2 rounded-lg text-ink-subtle hover:text-ink hover:bg-stone-100 transition-colors touch-manipulation"
+                    aria-label="Refresh usage"
+                  >
+                    <RefreshCw className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={handleClear}
+                    className="p-2 rounded-lg text-ink-subtle hover:text-red-600 hover:bg-red-50 transition-colors touch-manipulation"
+                    aria-label="Clear usage ledger"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default UsagePanel;
@@ -1,9 +1,21 @@
 import React, { useState, useEffect, useCallback, useMemo } from 'react';
-import { AnalysisResult } from '../types';
-import { Paintbrush, Check, Loader2, Maximize2, X, Sparkles, Building2, Info, ChevronDown, Palette, Plus } from 'lucide-react';
+import { AnalysisResult, ColorScheme, PaletteColor, SchemeRole, Surface } from '../types';
+import { Paintbrush, Check, Loader2, Maximize2, X, Sparkles, Building2, Info, ChevronDown, Palette, Plus, Brush, WifiOff, AlertTriangle, ScanSearch, Eye, EyeOff } from 'lucide-react';
 import ColorModal from './ColorModal';
+import LocalPreview from './LocalPreview';
+import DefectOverlay from './DefectOverlay';
 import AnimatedLoadingMessages from './AnimatedLoadingMessages';
 import RateLimitBanner from './RateLimitBanner';
+import DimensionsEditor from './DimensionsEditor';
+import { ProductTier, PRODUCT_TIERS, TIER_LABELS } from '../data/paintProducts';
+import { BudgetOptions } from '../services/budgetPlanner';
+import { formatRetryMessage, RetryAttempt } from '../services/ai/retry';
+import { SCHEME_ROLES, ROLE_LABELS, ROLE_DESCRIPTIONS, isCompleteScheme } from '../services/colorScheme';
+import { WallMask } from '../services/localRecolor';
+import { VisualizationCheck, CHECK_MESSAGES } from '../services/visualizationCheck';
+import { VERDICT_LABELS } from '../services/colorAccuracy';
+import { SPACE_TYPE_LABELS, getConfidentSpaceType } from '../services/spaceType';
+import { DEFECT_LABELS, SEVERITY_COLORS, SEVERITY_LABELS } from '../services/defectPrep';
 
 interface VisualizerProps {
   originalImage: string;
@@ -11,8 +23,12 @@ interface VisualizerProps {
   analysis: AnalysisResult | null;
   isVisualizing: boolean;
   loadingMessage?: string;
-  onVisualize: (colorName: string, colorHex: string) => void;
-  onGenerateList: (color: string, area: number) => void;
+  retryStatus?: RetryAttempt | null; // Set while a failed AI call waits to retry
+  aiUnavailable?: boolean; // Render quota used up or offline - offer the local preview instead
+  visualizationCheck?: VisualizationCheck | null; // How the current render compared with the photo
+  onVisualize: (colorName: string, colorHex: string, surface?: Surface) => void; // No surface = all walls
+  onVisualizeScheme: (scheme: ColorScheme) => void;
+  onGenerateList: (color: PaletteColor, area: number, budget: BudgetOptions, surface?: Surface, scheme?: ColorScheme) => void;
   onScrollToVisualizer?: () => void;
 }
 
@@ -22,16 +38,30 @@ const Visualizer: React.FC<VisualizerProps> = ({
   analysis, 
   isVisualizing,
   loadingMessage,
+  retryStatus,
+  aiUnavailable,
+  visualizationCheck,
   onVisualize,
+  onVisualizeScheme,
   onGenerateList,
   onScrollToVisualizer
 }) => {
-  const [selectedColor, setSelectedColor] = useState<{name: string, hex: string} | null>(null);
+  const [selectedColor, setSelectedColor] = useState<PaletteColor | null>(null);
   const [area, setArea] = useState<number>(0);
+  const [tier, setTier] = useState<ProductTier>('standard');
+  const [budgetInput, setBudgetInput] = useState('');
   const [activeTab, setActiveTab] = useState<'original' | 'visualized'>('original');
   const [showFullScreen, setShowFullScreen] = useState(false);
   const [isPaletteExpanded, setIsPaletteExpanded] = useState(true); // Always expanded on initial view
   const [openModalPalette, setOpenModalPalette] = useState<number | null>(null);
+  const [targetSurfaceId, setTargetSurfaceId] = useState<string | null>(null); // null = all walls
+  const [schemeMode, setSchemeMode] = useState(false);
+  const [scheme, setScheme] = useState<Partial<ColorScheme>>({});
+  const [activeRole, setActiveRole] = useState<SchemeRole>('body'); // Role the next color tap fills
+  const [showLocalPreview, setShowLocalPreview] = useState(false);
+  const [localMask, setLocalMask] = useState<WallMask | null>(null); // Walls marked in the quick preview
+  const [showDefects, setShowDefects] = useState(true); // Defect boxes over the original photo
+  const [hoveredDefect, setHoveredDefect] = useState<number | null>(null);
   
   const INITIAL_COLORS_TO_SHOW = 8;
 
@@ -40,21 +70,52 @@ const Visualizer: React.FC<VisualizerProps> = ({
     setSelectedColor(null);
     setActiveTab('original');
     setArea(0);
+    setTargetSurfaceId(null);
+    setSchemeMode(false);
+    setScheme({});
+    setActiveRole('body');
+    setShowLocalPreview(false);
+    setLocalMask(null);
   }, [originalImage]);
 
+  const surfaces = analysis?.surfaces || [];
+  const defects = analysis?.defects || [];
+
+  // Every suggested color once, for the quick preview swatches
+  const previewColors = useMemo(() => {
+    const seen = new Set<string>();
+    return (analysis?.palettes || [])
+      .flatMap(palette => palette.colors)
+      .filter(color => {
+        const hex = color.hex.toUpperCase();
+        if (seen.has(hex)) return false;
+        seen.add(hex);
+        return true;
+      });
+  }, [analysis]);
+  const targetSurface = surfaces.find(surface => surface.id === targetSurfaceId);
+
   // Switch to visualized tab when new visualization is ready
   useEffect(() => {
-    if (visualizedImage && selectedColor && !isVisualizing) {
+    if (visualizedImage && (selectedColor || schemeMode) && !isVisualizing) {
       setActiveTab('visualized');
     }
-  }, [visualizedImage, selectedColor, isVisualizing]);
+  }, [visualizedImage, selectedColor, schemeMode, isVisualizing]);
 
   // OPTIMIZATION Step 2.4: Memoize color selection handler
-  const handleColorSelect = useCallback((color: {name: string, hex: string}) => {
+  const handleColorSelect = useCallback((color: PaletteColor) => {
+    // Scheme mode: fill the active role, then move on to the next empty one (body → trim → accent)
+    if (schemeMode) {
+      setScheme(current => ({ ...current, [activeRole]: color }));
+      const nextRole = SCHEME_ROLES.find(role => role !== activeRole && !scheme[role]);
+      if (nextRole) setActiveRole(nextRole);
+      return;
+    }
+
     setSelectedColor(color);
     // Clear visualized image immediately for instant feedback
     setActiveTab('original');
-    onVisualize(color.name, color.hex);
+    onVisualize(color.name, color.hex, targetSurface);
     // Smoothly scroll to visualizer to show the updated preview
     if (onScrollToVisualizer) {
       // Small delay to ensure state updates are processed
@@ -62,14 +123,66 @@ const Visualizer: React.FC<VisualizerProps> = ({
         onScrollToVisualizer();
       }, 50);
     }
-  }, [onVisualize, onScrollToVisualizer]);
+  }, [onVisualize, onScrollToVisualizer, targetSurface, schemeMode, activeRole, scheme]);
+
+  const handleSchemeModeChange = useCallback((enabled: boolean) => {
+    setSchemeMode(enabled);
+    if (enabled) {
+      // Start from the color already on screen as the body
+      setScheme(current => (current.body || !selectedColor ? current : { ...current, body: selectedColor }));
+      setActiveRole(scheme.body || selectedColor ? 'trim' : 'body');
+    }
+  }, [selectedColor, scheme.body]);
+
+  const handleClearRole = useCallback((role: SchemeRole) => {
+    setScheme(current => {
+      const { [role]: _removed, ...rest } = current;
+      return rest;
+    });
+    setActiveRole(role);
+  }, []);
+
+  // One combined render; only on request since every render is a paid call
+  const handleSchemePreview = useCallback(() => {
+    if (!isCompleteScheme(scheme)) return;
+    setActiveTab('original');
+    onVisualizeScheme(scheme);
+    if (onScrollToVisualizer) {
+      setTimeout(() => {
+        onScrollToVisualizer();
+      }, 50);
+    }
+  }, [scheme, onVisualizeScheme, onScrollToVisualizer]);
+
+  const isColorSelected = useCallback((color: PaletteColor) =>
+    schemeMode
+      ? SCHEME_ROLES.some(role => scheme[role]?.name === color.name)
+      : selectedColor?.name === color.name,
+  [schemeMode, scheme, selectedColor]);
+
+  // Repaint the chosen color on the newly targeted surface
+  const handleSurfaceSelect = useCallback((surface: Surface | null) => {
+    setTargetSurfaceId(surface?.id ?? null);
+    if (selectedColor) {
+      setActiveTab('original');
+      onVisualize(selectedColor.name, selectedColor.hex, surface ?? undefined);
+    }
+  }, [selectedColor, onVisualize]);
 
   // OPTIMIZATION Step 2.4: Memoize generate handler
   const handleGenerateClick = useCallback(() => {
-    if (selectedColor && area > 0) {
-      onGenerateList(selectedColor.name, area);
+    if (area <= 0) return;
+    const budgetGHS = parseFloat(budgetInput);
+    const budget = {
+      tier,
+      budgetGHS: Number.isFinite(budgetGHS) && budgetGHS > 0 ? budgetGHS : undefined,
+    };
+    if (schemeMode) {
+      if (isCompleteScheme(scheme)) onGenerateList(scheme.body, area, budget, undefined, scheme);
+    } else if (selectedColor) {
+      onGenerateList(selectedColor, area, budget, targetSurface);
     }
-  }, [selectedColor, area, onGenerateList]);
+  }, [selectedColor, area, tier, budgetInput, onGenerateList, targetSurface, schemeMode, scheme]);
 
   // OPTIMIZATION Step 2.4: Memoize current image computation
   const currentImage = useMemo(() => {
@@ -196,7 +309,26 @@ const Visualizer: React.FC<VisualizerProps> = ({
                 ${isVisualizing ? 'scale-[1.02] opacity-60 blur-sm' : ''}
               `}
             />
+
+            {/* Detected defects - boxes belong to the original photo only */}
+            {showDefects && activeTab === 'original' && !isVisualizing && defects.length > 0 && (
+              <DefectOverlay image={originalImage} defects={defects} highlighted={hoveredDefect} />
+            )}
             
+            {/* Render failed the color check - still shown, but not trusted */}
+            {activeTab === 'visualized' && visualizationCheck && !visualizationCheck.ok && !isVisualizing && (
+              <div
+                className="absolute top-3 left-3 sm:top-4 sm:left-4 right-16 z-10 flex items-start gap-2 bg-amber-50/95 backdrop-blur-md text-amber-900 px-3 py-2 rounded-lg sm:rounded-xl shadow-md max-w-sm"
+                role="status"
+              >
+                <AlertTriangle className="w-4 h-4 flex-shrink-0 mt-0.5 text-amber-700" />
+                <div className="text-xs sm:text-sm">
+                  <p className="font-semibold">Color may be inaccurate</p>
+                  <p>{visualizationCheck.issues.map(issue => CHECK_MESSAGES[issue]).join(' ')}</p>
+                </div>
+              </div>
+            )}
+
             {/* Gradient overlay */}
             <div className="absolute inset-0 bg-gradient-to-t from-ink/50 via-transparent to-transparent opacity-60 pointer-events-none" />
 
@@ -245,12 +377,85 @@ const Visualizer: React.FC<VisualizerProps> = ({
                     interval={4000}
                     className="min-w-[200px] sm:min-w-[240px]"
                     showDots={!loadingMessage}
+                    retry={retryStatus}
                   />
                 </div>
               </div>
             )}
           </div>
           
+          {/* Color Accuracy - requested paint next to what the render shows */}
+          {visualizedImage && !isVisualizing && visualizationCheck?.accuracy && (
+            <div className="bg-paper-elevated rounded-xl sm:rounded-2xl p-4 shadow-sm border border-stone-100 animate-reveal-up">
+              <div className="flex items-center gap-4">
+                <div className="flex items-center gap-2 flex-shrink-0">
+                  {[
+                    { label: 'Paint', hex: visualizationCheck.accuracy.requestedHex },
+                    { label: 'Preview', hex: visualizationCheck.accuracy.renderedHex },
+                  ].map(({ label, hex }) => (
+                    <div key={label} className="flex flex-col items-center gap-1">
+                      <div
+                        className="w-10 h-10 sm:w-12 sm:h-12 rounded-lg border border-ink/10 shadow-sm"
+                        style={{ backgroundColor: hex }}
+                        title={hex}
+                      />
+                      <span className="text-[10px] sm:text-xs text-ink-subtle">{label}</span>
+                    </div>
+                  ))}
+                </div>
+                <div className="min-w-0">
+                  <p className="text-sm sm:text-base font-semibold text-ink">
+                    {VERDICT_LABELS[visualizationCheck.accuracy.verdict]}
+                    <span className="font-normal text-ink-subtle"> • ΔE {visualizationCheck.accuracy.deltaE}</span>
+                  </p>
+                  <p className="text-sm text-ink-muted">{visualizationCheck.accuracy.note}</p>
+                  {visualizationCheck.accuracy.verdict !== 'match' && (
+                    <p className="text-xs text-ink-subtle mt-0.5">Light and screens change how paint looks - check a sample on the wall before buying.</p>
+                  )}
+                </div>
+              </div>
+            </div>
+          )}
+
+          {/* Quick Preview - free local recolor, always available */}
+          {analysis && (
+            aiUnavailable ? (
+              <div className="bg-amber-50 border border-amber-200 rounded-xl sm:rounded-2xl p-4 flex flex-col sm:flex-row sm:items-center gap-3">
+                <div className="flex items-start gap-3 flex-1">
+                  <WifiOff className="w-5 h-5 text-amber-700 flex-shrink-0 mt-0.5" />
+                  <p className="text-sm sm:text-base text-amber-900">
+                    AI renders are unavailable right now. You can still try colors for free with a quick preview on your device.
+                  </p>
+                </div>
+                <button
+                  onClick={() => setShowLocalPreview(true)}
+                  className="flex items-center justify-center gap-2 px-4 py-2.5 rounded-xl bg-accent hover:bg-accent-hover text-white text-sm font-semibold transition-colors touch-manipulation min-h-[44px]"
+                >
+                  <Brush className="w-4 h-4" />
+                  Quick preview
+                </button>
+              </div>
+            ) : (
+              <button
+                onClick={() => setShowLocalPreview(true)}
+                className="w-full flex items-center justify-center gap-2 px-4 py-2.5 rounded-xl border border-stone-200 bg-paper-elevated hover:bg-stone-50 text-sm font-medium text-ink-subtle transition-colors touch-manipulation min-h-[44px]"
+              >
+                <Brush className="w-4 h-4" />
+                Quick preview - mark walls and try colors instantly (free)
+              </button>
+            )
+          )}
+
+          <LocalPreview
+            isOpen={showLocalPreview}
+            onClose={() => setShowLocalPreview(false)}
+            image={originalImage}
+            colors={previewColors}
+            initialColor={selectedColor || scheme.body || null}
+            mask={localMask}
+            onMaskChange={setLocalMask}
+          />
+
           {/* Surface Analysis Card */}
           {analysis ? (
             <div className="bg-paper-elevated rounded-xl sm:rounded-2xl p-4 sm:p-5 shadow-sm border border-stone-100 animate-reveal-up delay-1">
@@ -262,12 +467,92 @@ const Visualizer: React.FC<VisualizerProps> = ({
                   <h4 className="font-semibold text-ink text-base sm:text-lg mb-1.5">Surface Analysis</h4>
                   <p className="text-sm sm:text-base text-ink-subtle mb-2">
                     <span className="font-medium text-ink">{analysis.surfaceType}</span> • {analysis.condition}
+                    {analysis.spaceType && (
+                      <span title={getConfidentSpaceType(analysis)
+                        ? `${Math.round((analysis.spaceTypeConfidence ?? 0) * 100)}% confident - colors and paint products are chosen for this space`
+                        : `Only ${Math.round((analysis.spaceTypeConfidence ?? 0) * 100)}% confident - colors and paint products are not filtered`}>
+                        {' • '}{SPACE_TYPE_LABELS[analysis.spaceType]}
+                        {!getConfidentSpaceType(analysis) && ' (unsure)'}
+                      </span>
+                    )}
                   </p>
                   {analysis.description && (
                     <p className="text-sm sm:text-base text-ink-muted leading-relaxed">
                       {analysis.description}
                     </p>
                   )}
+                  {defects.length > 0 && (
+                    <div className="mt-3">
+                      <div className="flex items-center justify-between gap-2 mb-1.5 sm:mb-2">
+                        <p className="text-xs sm:text-sm font-medium text-ink-muted uppercase tracking-wide flex items-center gap-1.5">
+                          <ScanSearch className="w-3.5 h-3.5" />
+                          Defects to fix first ({defects.length})
+                        </p>
+                        <button
+                          onClick={() => {
+                            setShowDefects(!showDefects);
+                            setActiveTab('original');
+                          }}
+                          className="flex items-center gap-1 text-xs sm:text-sm text-accent font-medium hover:underline touch-manipulation"
+                          aria-pressed={showDefects}
+                        >
+                          {showDefects ? <EyeOff className="w-3.5 h-3.5" /> : <Eye className="w-3.5 h-3.5" />}
+                          {showDefects ? 'Hide on photo' : 'Show on photo'}
+                        </button>
+                      </div>
+                      <ul className="space-y-1">
+                        {defects.map((defect, idx) => (
+                          <li
+                            key={idx}
+                            className="flex items-start gap-2 text-sm text-ink-subtle"
+                            onMouseEnter={() => setHoveredDefect(idx)}
+                            onMouseLeave={() => setHoveredDefect(null)}
+                          >
+                            <span
+                              className="w-2.5 h-2.5 rounded-sm mt-1 flex-shrink-0"
+                              style={{ backgroundColor: SEVERITY_COLORS[defect.severity] }}
+                            />
+                            <span>
+                              <span className="font-medium text-ink">{DEFECT_LABELS[defect.type]}</span>
+                              {' • '}{SEVERITY_LABELS[defect.severity]}
+                              {defect.note && ` - ${defect.note}`}
+                            </span>
+                          </li>
+                        ))}
+                      </ul>
+                      <p className="text-xs text-ink-subtle mt-1.5">Prep steps and materials for these go on the shopping list for the main walls.</p>
+                    </div>
+                  )}
+                  {surfaces.length > 1 && !schemeMode && (
+                    <div className="mt-3">
+                      <p className="text-xs sm:text-sm font-medium text-ink-muted uppercase tracking-wide mb-1.5 sm:mb-2">Surface to paint</p>
+                      <div className="flex flex-wrap gap-2" role="radiogroup" aria-label="Surface to paint">
+                        {[null, ...surfaces].map(surface => {
+                          const isTarget = (surface?.id ?? null) === targetSurfaceId;
+                          return (
+                            <button
+                              key={surface?.id ?? 'all'}
+                              role="radio"
+                              aria-checked={isTarget}
+                              onClick={() => handleSurfaceSelect(surface)}
+                              disabled={isVisualizing}
+                              title={surface ? `${surface.material} • ${surface.condition}` : 'Every painted wall in the photo'}
+                              className={`px-3 py-1.5 rounded-lg text-sm font-medium transition-colors touch-manipulation disabled:opacity-40 ${
+                                isTarget ? 'bg-accent text-white' : 'bg-paper-warm text-ink-subtle hover:bg-stone-100'
+                              }`}
+                            >
+                              {surface ? surface.name : 'All walls'}
+                            </button>
+                          );
+                        })}
+                      </div>
+                      {targetSurface && (
+                        <p className="text-xs sm:text-sm text-ink-subtle mt-1.5">
+                          {targetSurface.material} • {targetSurface.condition}
+                        </p>
+                      )}
+                    </div>
+                  )}
                 </div>
               </div>
             </div>
@@ -279,7 +564,7 @@ const Visualizer: React.FC<VisualizerProps> = ({
               <div className="space-y-1.5 sm:space-y-2 flex-1">
                 <h4 className="font-semibold text-ink text-base sm:text-lg">Analyzing Your Space</h4>
                 <p className="text-sm sm:text-base text-accent font-medium">
-                  {loadingMessage || 'Analyzing architecture and lighting conditions...'}
+                  {retryStatus ? formatRetryMessage(retryStatus) : loadingMessage || 'Analyzing architecture and lighting conditions...'}
                 </p>
               </div>
             </div>
@@ -303,13 +588,32 @@ const Visualizer: React.FC<VisualizerProps> = ({
                 </div>
                 <div className="text-left">
                   <h3 className="text-lg sm:text-xl font-semibold text-ink">Choose a Color</h3>
-                  {selectedColor ? (
+                  {schemeMode ? (
+                    <div className="flex items-center gap-1.5 mt-0.5">
+                      {SCHEME_ROLES.filter(role => scheme[role]).map(role => (
+                        <div
+                          key={role}
+                          className="w-3 h-3 rounded-full border border-ink/10"
+                          style={{ backgroundColor: normalizeHex(scheme[role]!.hex) }}
+                          title={`${ROLE_LABELS[role]}: ${scheme[role]!.name}`}
+                        />
+                      ))}
+                      <span className="text-sm sm:text-base text-accent font-medium">
+                        {isCompleteScheme(scheme) ? 'Color scheme' : 'Pick scheme colors'}
+                      </span>
+                    </div>
+                  ) : selectedColor ? (
                     <div className="flex items-center gap-2 mt-0.5">
                       <div 
                         className="w-3 h-3 rounded-full border border-ink/10" 
                         style={{ backgroundColor: normalizeHex(selectedColor.hex) }}
                       />
                       <span className="text-sm sm:text-base text-accent font-medium">{selectedColor.name}</span>
+                      {selectedColor.code ? (
+                        <span className="text-xs sm:text-sm text-ink-subtle">{selectedColor.manufacturer} {selectedColor.code}</span>
+                      ) : selectedColor.stocked === false && (
+                        <span className="text-xs sm:text-sm text-amber-700">Not a stocked color</span>
+                      )}
                     </div>
                   ) : (
                     <p className="text-sm sm:text-base text-ink-subtle">Tap to select a paint color</p>
@@ -326,9 +630,83 @@ const Visualizer: React.FC<VisualizerProps> = ({
               id="color-palette-content"
               className={`
                 transition-all duration-300 ease-out overflow-hidden
-                ${isPaletteExpanded ? 'max-h-[500px] opacity-100' : 'max-h-0 opacity-0 lg:max-h-[500px] lg:opacity-100'}
+                ${isPaletteExpanded ? 'max-h-[640px] opacity-100' : 'max-h-0 opacity-0 lg:max-h-[640px] lg:opacity-100'}
               `}
             >
+              {/* Single color or body/trim/accent scheme */}
+              {analysis && (
+                <div className="px-4 sm:px-6 pb-3 space-y-3">
+                  <div className="grid grid-cols-2 gap-2" role="radiogroup" aria-label="Color mode">
+                    {([false, true] as const).map(enabled => (
+                      <button
+                        key={String(enabled)}
+                        role="radio"
+                        aria-checked={schemeMode === enabled}
+                        onClick={() => handleSchemeModeChange(enabled)}
+                        className={`py-2 rounded-lg text-sm font-medium transition-colors touch-manipulation ${
+                          schemeMode === enabled ? 'bg-accent text-white' : 'bg-paper-warm text-ink-subtle hover:bg-stone-100'
+                        }`}
+                      >
+                        {enabled ? 'Color scheme' : 'Single color'}
+                      </button>
+                    ))}
+                  </div>
+
+                  {schemeMode && (
+                    <>
+                      <div className="grid grid-cols-3 gap-2" role="radiogroup" aria-label="Role to fill">
+                        {SCHEME_ROLES.map(role => {
+                          const assigned = scheme[role];
+                          return (
+                            <div
+                              key={role}
+                              className={`relative rounded-xl border p-2 text-left transition-colors ${
+                                activeRole === role ? 'border-accent bg-accent-soft/30' : 'border-stone-200 bg-paper-warm'
+                              }`}
+                            >
+                              <button
+                                role="radio"
+                                aria-checked={activeRole === role}
+                                onClick={() => setActiveRole(role)}
+                                className="w-full flex items-center gap-2 touch-manipulation"
+                                title={ROLE_DESCRIPTIONS[role]}
+                              >
+                                <span
+                                  className={`w-6 h-6 rounded-full flex-shrink-0 ${assigned ? 'border border-ink/10' : 'border-2 border-dashed border-ink/20'}`}
+                                  style={assigned ? { backgroundColor: normalizeHex(assigned.hex) } : undefined}
+                                />
+                                <span className="min-w-0">
+                                  <span className="block text-xs font-semibold text-ink">
+                                    {ROLE_LABELS[role]}{role !== 'body' && <span className="font-normal text-ink-subtle"> (optional)</span>}
+                                  </span>
+                                  <span className="block text-xs text-ink-subtle truncate">{assigned ? assigned.name : 'Tap a color'}</span>
+                                </span>
+                              </button>
+                              {assigned && (
+                                <button
+                                  onClick={() => handleClearRole(role)}
+                                  className="absolute -top-1.5 -right-1.5 w-5 h-5 rounded-full bg-paper-elevated border border-stone-200 flex items-center justify-center text-ink-subtle hover:text-ink touch-manipulation"
+                                  aria-label={`Clear ${ROLE_LABELS[role].toLowerCase()} color`}
+                                >
+                                  <X className="w-3 h-3" />
+                                </button>
+                              )}
+                            </div>
+                          );
+                        })}
+                      </div>
+                      <button
+                        onClick={handleSchemePreview}
+                        disabled={!isCompleteScheme(scheme) || isVisualizing}
+                        className="w-full py-2.5 rounded-lg bg-ink text-white text-sm font-semibold transition-all active:scale-[0.98] disabled:opacity-40 disabled:cursor-not-allowed touch-manipulation"
+                      >
+                        {isCompleteScheme(scheme) ? 'Preview scheme' : 'Pick a body color and a trim or accent'}
+                      </button>
+                    </>
+                  )}
+                </div>
+              )}
+
               <div className="px-4 sm:px-6 pb-4 sm:pb-6 space-y-3 sm:space-y-4 overflow-y-auto max-h-[380px] custom-scrollbar">
                 {analysis ? (
                   analysis.palettes.map((palette, idx) => {
@@ -366,24 +744,24 @@ const Visualizer: React.FC<VisualizerProps> = ({
                             return (
                               <button
                                 key={cIdx}
-                                onClick={() => handleColorSelect({ name: color.name, hex: normalizedHex })}
+                                onClick={() => handleColorSelect({ ...color, hex: normalizedHex })}
                                 // DISABLED: Prefetch on hover was causing excessive API costs
                                 // Each hover triggered an API call (~$0.05-0.15 each)
                                 className="flex flex-col items-center group/item cursor-pointer w-12 sm:w-14 touch-manipulation"
-                                aria-label={`Select color ${color.name}`}
+                                aria-label={`Select color ${color.name}${color.code ? `, code ${color.code}` : ''}`}
                               >
                                 <div
                                   className={`
                                     relative w-12 h-12 sm:w-11 sm:h-11 rounded-full transition-all duration-200 mb-1.5 sm:mb-2 
                                     border border-ink/5 shadow-sm touch-manipulation
-                                    ${selectedColor?.name === color.name 
+                                    ${isColorSelected(color) 
                                       ? 'ring-2 ring-offset-2 ring-accent scale-110 shadow-md' 
                                       : 'active:scale-95'
                                     }
                                   `}
                                   style={{ backgroundColor: normalizedHex }}
                                 >
-                                  {selectedColor?.name === color.name && (
+                                  {isColorSelected(color) && (
                                     <div className="absolute inset-0 flex items-center justify-center">
                                       <Check className={`w-4 h-4 ${isLightColor(normalizedHex) ? 'text-ink' : 'text-white'} drop-shadow-sm`} />
                                     </div>
@@ -391,10 +769,19 @@ const Visualizer: React.FC<VisualizerProps> = ({
                                 </div>
                                 <span className={`
                                   text-xs sm:text-sm font-medium text-center leading-tight line-clamp-2
-                                  ${selectedColor?.name === color.name ? 'text-accent font-semibold' : 'text-ink-subtle'}
+                                  ${isColorSelected(color) ? 'text-accent font-semibold' : 'text-ink-subtle'}
                                 `}>
                                   {color.name}
                                 </span>
+                                {color.code ? (
+                                  <span className="text-[10px] sm:text-xs text-ink-subtle text-center leading-tight mt-0.5">
+                                    {color.code}
+                                  </span>
+                                ) : color.stocked === false && (
+                                  <span className="text-[10px] sm:text-xs text-amber-700 text-center leading-tight mt-0.5">
+                                    Not stocked
+                                  </span>
+                                )}
                               </button>
                             );
                           })}
@@ -453,43 +840,65 @@ const Visualizer: React.FC<VisualizerProps> = ({
               </h3>
               
               <div className="space-y-4 sm:space-y-5">
+                {/* Remount on new image so dimensions start fresh */}
+                <DimensionsEditor key={originalImage} onChange={setArea} disabled={!analysis} />
+
+                {/* Budget tier */}
+                <div>
+                  <span className="text-xs sm:text-sm font-medium text-white/60 uppercase tracking-wide block mb-1.5 sm:mb-2">
+                    Quality
+                  </span>
+                  <div className="grid grid-cols-3 gap-2" role="radiogroup" aria-label="Product quality tier">
+                    {PRODUCT_TIERS.map(t => (
+                      <button
+                        key={t}
+                        role="radio"
+                        aria-checked={tier === t}
+                        onClick={() => setTier(t)}
+                        disabled={!analysis}
+                        className={`py-2 rounded-lg text-sm font-medium transition-colors touch-manipulation disabled:opacity-40 ${
+                          tier === t ? 'bg-accent text-white' : 'bg-white/10 text-white/70 hover:bg-white/20'
+                        }`}
+                      >
+                        {TIER_LABELS[t]}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+
+                {/* Optional budget */}
                 <div>
-                  <label className="text-xs sm:text-sm font-medium text-white/60 uppercase tracking-wide block mb-1.5 sm:mb-2">
-                    Area to Paint
+                  <label
+                    htmlFor="budget-input"
+                    className="text-xs sm:text-sm font-medium text-white/60 uppercase tracking-wide block mb-1.5 sm:mb-2"
+                  >
+                    Materials budget (optional)
                   </label>
-                  <div className="flex items-center gap-2 sm:gap-3">
+                  <div className="relative">
+                    <span className="absolute left-3 top-1/2 -translate-y-1/2 text-white/50">₵</span>
                     <input
+                      id="budget-input"
                       type="number"
                       inputMode="decimal"
-                      min="1"
-                      value={area || ''}
-                      onChange={(e) => setArea(Number(e.target.value))}
-                      onFocus={(e) => {
-                        // Scroll input into view when keyboard appears on mobile
-                        setTimeout(() => {
-                          e.target.scrollIntoView({ 
-                            behavior: 'smooth', 
-                            block: 'center',
-                            inline: 'nearest'
-                          });
-                        }, 300); // Delay to account for keyboard animation
-                      }}
-                      placeholder="Enter size"
+                      min="0"
+                      step="10"
+                      value={budgetInput}
+                      onChange={(e) => setBudgetInput(e.target.value)}
+                      placeholder="No limit"
                       disabled={!analysis}
-                      className="
-                        flex-1 bg-white/10 border border-white/10 rounded-lg sm:rounded-xl px-3 sm:px-4 py-2.5 sm:py-3 
-                        text-white placeholder-white/40 text-base sm:text-lg
-                        focus:ring-2 focus:ring-accent focus:border-transparent outline-none 
-                        transition-all disabled:opacity-40 disabled:cursor-not-allowed
-                      "
+                      className="w-full bg-white/10 border border-white/10 rounded-lg pl-7 pr-3 py-2 text-white placeholder-white/40 text-base tabular-nums focus:ring-2 focus:ring-accent focus:border-transparent outline-none transition-all disabled:opacity-40 disabled:cursor-not-allowed"
                     />
-                    <span className="font-medium text-white/60 text-sm sm:text-base">m²</span>
                   </div>
+                  {budgetInput && (
+                    <p className="mt-1.5 text-xs text-white/50">
+                      We'll step down from {TIER_LABELS[tier]} until the materials fit.
+                    </p>
+                  )}
                 </div>
 
                 <button
                   onClick={handleGenerateClick}
-                  disabled={!selectedColor || area <= 0}
+                  disabled={(schemeMode ? !isCompleteScheme(scheme) : !selectedColor) || area <= 0}
                   className="
                     w-full py-3 sm:py-4 bg-accent hover:bg-accent-hover text-white rounded-lg sm:rounded-xl 
                     font-semibold text-base sm:text-lg shadow-lg disabled:opacity-40 disabled:cursor-not-allowed 
@@ -510,7 +919,7 @@ const Visualizer: React.FC<VisualizerProps> = ({
           isOpen={openModalPalette !== null}
           onClose={() => setOpenModalPalette(null)}
           palette={analysis.palettes[openModalPalette]}
-          selectedColor={selectedColor}
+          selectedColor={schemeMode ? scheme[activeRole] ?? null : selectedColor}
           onSelectColor={handleColorSelect}
         />
       )}
@@ -0,0 +1,248 @@
+/**
+ * Catalog Loader - Builds the paint catalog from per-manufacturer data files
+ * Supports JSON (data/catalog/<manufacturer>.json) and CSV (data/catalog/<manufacturer>.csv)
+ * Every row is checked against the PaintColor shape; bad rows are skipped and reported
+ */
+
+import type { PaintColor } from './paintColors';
+
+export const KNOWN_MANUFACTURERS: PaintColor['manufacturer'][] = ['Neuce', 'Azar', 'Leyland', 'Shield', 'Other'];
+export const KNOWN_CATEGORIES: PaintColor['category'][] = ['exterior', 'interior', 'both'];
+
+const HEX_PATTERN = /^#[0-9A-F]{6}$/;
+
+export interface CatalogIssue {
+  file: string;
+  row?: number; // 1-based data row (CSV: line number in file)
+  message: string;
+}
+
+export interface CatalogLoadResult {
+  colors: Record<string, PaintColor[]>; // Keyed by lowercase manufacturer (e.g. 'neuce')
+  versions: Record<string, string>;
+  issues: CatalogIssue[];
+}
+
+interface RawCatalogFile {
+  manufacturer?: string;
+  version: string;
+  rows: { row: number; values: unknown }[]; // Checked row by row in toPaintColor
+}
+
+/**
+ * Format colors for use in AI prompts
+ * Returns a formatted string like: "Peach Blossom #FFE5B4 NC-001, Terracotta #E2725B NC-002"
+ */
+export const formatColorsForPrompt = (colors: PaintColor[]): string => {
+  if (colors.length === 0) return 'No colors available';
+  // Optimized format: saves ~3 tokens per color by removing parentheses
+  return colors.map(c => `${c.name} ${c.hex}${c.code ? ` ${c.code}` : ''}`).join(', ');
+};
+
+/**
+ * Format an issue as a single readable line, e.g. "azar.json row 3: invalid hex "#GGG""
+ */
+export const formatCatalogIssue = (issue: CatalogIssue): string => {
+  const location = issue.row !== undefined ? `${issue.file} row ${issue.row}` : issue.file;
+  return `${location}: ${issue.message}`;
+};
+
+/**
+ * Split one CSV line into fields (handles quoted fields and escaped quotes)
+ */
+const splitCsvLine = (line: string): string[] => {
+  const fields: string[] = [];
+  let current = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (inQuotes) {
+      if (char === '"' && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        current += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      fields.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  fields.push(current.trim());
+  return fields;
+};
+
+/**
+ * Parse CSV text into header-keyed records
+ * Lines starting with "#" are comments; "# key: value" comments are returned as metadata
+ * Exported for other CSV imports (e.g. retailer price lists)
+ */
+export const parseCsv = (
+  text: string
+): { meta: Record<string, string>; header: string[]; rows: { row: number; values: Record<string, string> }[] } => {
+  const meta: Record<string, string> = {};
+  const rows: { row: number; values: Record<string, string> }[] = [];
+  let header: string[] = [];
+
+  text.split(/\r?\n/).forEach((rawLine, idx) => {
+    const line = rawLine.trim();
+    if (!line) return;
+
+    if (line.startsWith('#')) {
+      const match = line.match(/^#\s*([\w-]+)\s*:\s*(.+)$/);
+      if (match) meta[match[1].toLowerCase()] = match[2].trim();
+      return;
+    }
+
+    const fields = splitCsvLine(line);
+    if (header.length === 0) {
+      header = fields.map(f => f.toLowerCase());
+      return;
+    }
+
+    const values: Record<string, string> = {};
+    header.forEach((key, i) => {
+      values[key] = fields[i] ?? '';
+    });
+    rows.push({ row: idx + 1, values });
+  });
+
+  return { meta, header, rows };
+};
+
+const readJsonFile = (file: string, text: string, issues: CatalogIssue[]): RawCatalogFile | null => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    issues.push({ file, message: `invalid JSON (${error instanceof Error ? error.message : String(error)})` });
+    return null;
+  }
+
+  const { manufacturer, version, colors } = (data && typeof data === 'object' ? data : {}) as Record<string, unknown>;
+  if (!Array.isArray(colors)) {
+    issues.push({ file, message: 'expected an object with a "colors" array' });
+    return null;
+  }
+
+  return {
+    manufacturer: typeof manufacturer === 'string' ? manufacturer : undefined,
+    version: version !== undefined ? String(version) : 'unversioned',
+    rows: colors.map((values: unknown, i: number) => ({ row: i + 1, values })),
+  };
+};
+
+const readCsvFile = (file: string, text: string, issues: CatalogIssue[]): RawCatalogFile | null => {
+  const { meta, header, rows } = parseCsv(text);
+
+  const missing = ['name', 'hex', 'category'].filter(col => !header.includes(col));
+  if (missing.length > 0) {
+    issues.push({ file, message: `missing column(s): ${missing.join(', ')}` });
+    return null;
+  }
+
+  return {
+    manufacturer: meta.manufacturer,
+    version: meta.version || 'unversioned',
+    rows,
+  };
+};
+
+/**
+ * Validate one raw row and convert it to a PaintColor
+ * Returns an error message instead when the row is unusable
+ */
+const toPaintColor = (
+  row: unknown,
+  manufacturer: PaintColor['manufacturer']
+): PaintColor | string => {
+  // JSON rows can be anything (null, a string, an array)
+  if (typeof row !== 'object' || !row || Array.isArray(row)) return 'expected an object with name, hex and category';
+  const values = row as Record<string, unknown>;
+
+  const name = typeof values.name === 'string' ? values.name.trim() : '';
+  if (!name) return 'missing name';
+
+  const rawHex = typeof values.hex === 'string' ? values.hex.trim().toUpperCase() : '';
+  const hex = rawHex.startsWith('#') ? rawHex : `#${rawHex}`;
+  if (!HEX_PATTERN.test(hex)) return `invalid hex "${values.hex ?? ''}" for "${name}" (expected #RRGGBB)`;
+
+  const category = typeof values.category === 'string' ? values.category.trim().toLowerCase() : '';
+  if (!KNOWN_CATEGORIES.includes(category as PaintColor['category'])) {
+    return `unknown category "${values.category ?? ''}" for "${name}" (expected ${KNOWN_CATEGORIES.join(' / ')})`;
+  }
+
+  const code = typeof values.code === 'string' && values.code.trim() ? values.code.trim() : undefined;
+
+  return {
+    name,
+    hex,
+    manufacturer,
+    category: category as PaintColor['category'],
+    ...(code ? { code } : {}),
+  };
+};
+
+/**
+ * Load catalog files into PaintColor lists
+ * Several files for the same manufacturer are merged into one list
+ * @param files Map of file name (e.g. "neuce.json") to file contents
+ */
+export const loadCatalog = (files: Record<string, string>): CatalogLoadResult => {
+  const result: CatalogLoadResult = { colors: {}, versions: {}, issues: [] };
+  const seenCodes = new Map<string, string>(); // code -> "file row N"
+
+  Object.keys(files).sort().forEach((file) => {
+    const match = file.match(/^(.+)\.(json|csv)$/i);
+    if (!match) {
+      result.issues.push({ file, message: 'unsupported file type (use .json or .csv)' });
+      return;
+    }
+
+    const raw = match[2].toLowerCase() === 'json'
+      ? readJsonFile(file, files[file], result.issues)
+      : readCsvFile(file, files[file], result.issues);
+    if (!raw) return;
+
+    // Manufacturer comes from the file header, falling back to the file name
+    const declared = raw.manufacturer || match[1];
+    const manufacturer = KNOWN_MANUFACTURERS.find(m => m.toLowerCase() === declared.toLowerCase());
+    if (!manufacturer) {
+      result.issues.push({ file, message: `unknown manufacturer "${declared}" (expected ${KNOWN_MANUFACTURERS.join(' / ')})` });
+      return;
+    }
+
+    const key = manufacturer.toLowerCase();
+    const colors = result.colors[key] || [];
+    raw.rows.forEach(({ row, values }) => {
+      const color = toPaintColor(values, manufacturer);
+      if (typeof color === 'string') {
+        result.issues.push({ file, row, message: color });
+        return;
+      }
+
+      if (color.code) {
+        const firstSeen = seenCodes.get(color.code);
+        if (firstSeen) {
+          result.issues.push({ file, row, message: `duplicate code "${color.code}" (already used in ${firstSeen})` });
+          return;
+        }
+        seenCodes.set(color.code, `${file} row ${row}`);
+      }
+
+      colors.push(color);
+    });
+
+    result.colors[key] = colors;
+    result.versions[key] = raw.version;
+  });
+
+  return result;
+};
@@ -0,0 +1,107 @@
+/**
+ * Cross-brand Equivalents - Closest product from every other manufacturer
+ * Lets a shop suggest an Azar/Leyland/Shield swap when a Neuce color is out of stock
+ */
+
+import { PaintColor, PAINT_COLORS } from './paintColors';
+import { deltaE2000, hexToLab, Lab } from './colorScience';
+
+export type MatchLabel = 'close' | 'near' | 'rough';
+
+export interface ColorEquivalent {
+  color: PaintColor;
+  deltaE: number;
+  label: MatchLabel;
+}
+
+// CIEDE2000 upper bounds per label; anything beyond ROUGH is not offered as a swap
+export const MATCH_THRESHOLDS: Record<MatchLabel, number> = {
+  close: 3, // Hard to tell apart on the wall
+  near: 6, // Same color family, visible side by side
+  rough: 12, // Similar feel, noticeably different
+};
+
+export const MATCH_LABEL_TEXT: Record<MatchLabel, string> = {
+  close: 'Close match',
+  near: 'Near match',
+  rough: 'Rough match',
+};
+
+export const getMatchLabel = (deltaE: number): MatchLabel | null => {
+  if (deltaE <= MATCH_THRESHOLDS.close) return 'close';
+  if (deltaE <= MATCH_THRESHOLDS.near) return 'near';
+  if (deltaE <= MATCH_THRESHOLDS.rough) return 'rough';
+  return null;
+};
+
+const colorKey = (color: { code?: string; name: string; manufacturer?: string }): string =>
+  color.code || `${color.manufacturer || 'Other'}:${color.name}`;
+
+/**
+ * Best match from each other manufacturer for one color, closest first
+ */
+const findEquivalents = (
+  target: { hex: string; manufacturer?: string },
+  entries: { color: PaintColor; lab: Lab }[]
+): ColorEquivalent[] => {
+  const targetLab = hexToLab(target.hex);
+  if (!targetLab) return [];
+
+  const bestPerBrand = new Map<string, ColorEquivalent>();
+  for (const { color, lab } of entries) {
+    if (color.manufacturer === target.manufacturer) continue;
+    const deltaE = deltaE2000(targetLab, lab);
+    const label = getMatchLabel(deltaE);
+    if (!label) continue;
+
+    const current = bestPerBrand.get(color.manufacturer);
+    if (!current || deltaE < current.deltaE) {
+      bestPerBrand.set(color.manufacturer, { color, deltaE, label });
+    }
+  }
+
+  return Array.from(bestPerBrand.values()).sort((a, b) => a.deltaE - b.deltaE);
+};
+
+/**
+ * Build the equivalents index for a set of catalog colors
+ * Keyed by product code (or "Manufacturer:Name" for colors without a code)
+ */
+export const buildEquivalentsIndex = (colors: PaintColor[]): Map<string, ColorEquivalent[]> => {
+  const entries = colors
+    .map(color => ({ color, lab: hexToLab(color.hex) }))
+    .filter((entry): entry is { color: PaintColor; lab: Lab } => entry.lab !== null);
+
+  const index = new Map<string, ColorEquivalent[]>();
+  for (const { color } of entries) {
+    index.set(colorKey(color), findEquivalents(color, entries));
+  }
+  return index;
+};
+
+// Built once on first lookup (catalog is static for the session)
+let catalogIndex: Map<string, ColorEquivalent[]> | null = null;
+
+/**
+ * Cross-brand equivalents for a catalog color or any suggested color
+ * Colors that aren't in the catalog (e.g. not stocked) are matched on the fly
+ */
+export const getEquivalents = (color: {
+  name: string;
+  hex: string;
+  manufacturer?: string;
+  code?: string;
+}): ColorEquivalent[] => {
+  if (!catalogIndex) {
+    catalogIndex = buildEquivalentsIndex(Object.values(PAINT_COLORS).flat());
+  }
+
+  const indexed = catalogIndex.get(colorKey(color));
+  if (indexed) return indexed;
+
+  const entries = Object.values(PAINT_COLORS)
+    .flat()
+    .map(c => ({ color: c, lab: hexToLab(c.hex) }))
+    .filter((entry): entry is { color: PaintColor; lab: Lab } => entry.lab !== null);
+  return findEquivalents(color, entries);
+};
@@ -0,0 +1,261 @@
+/**
+ * Color Science - Perceptual color comparison for catalog matching
+ * Converts sRGB hex to CIELAB (D65) and measures distance with CIEDE2000
+ */
+
+import { PaintColor, PAINT_COLORS } from './paintColors';
+
+export interface RGB {
+  r: number;
+  g: number;
+  b: number;
+}
+
+export interface Lab {
+  L: number;
+  a: number;
+  b: number;
+}
+
+export interface ColorMatch {
+  color: PaintColor;
+  deltaE: number; // CIEDE2000 distance (0 = identical, <1 barely visible, >10 clearly different)
+}
+
+export interface NearestColorOptions {
+  limit?: number; // Max results (default 5)
+  manufacturer?: PaintColor['manufacturer']; // Restrict to one manufacturer
+  category?: PaintColor['category']; // 'both' colors always match
+  maxDeltaE?: number; // Drop matches further than this
+}
+
+// D65 reference white
+const REF_X = 95.047;
+const REF_Y = 100.0;
+const REF_Z = 108.883;
+
+/**
+ * Parse "#RGB" / "#RRGGBB" (with or without #) into 0-255 channels
+ * Returns null for anything that isn't a valid hex color
+ */
+export const hexToRgb = (hex: string): RGB | null => {
+  if (!hex || typeof hex !== 'string') return null;
+  let h = hex.trim().replace(/^#/, '');
+  if (h.length === 3) {
+    h = h[0] + h[0] + h[1] + h[1] + h[2] + h[2];
+  }
+  if (!/^[0-9A-Fa-f]{6}$/.test(h)) return null;
+  return {
+    r: parseInt(h.substring(0, 2), 16),
+    g: parseInt(h.substring(2, 4), 16),
+    b: parseInt(h.substring(4, 6), 16),
+  };
+};
+
+/**
+ * Format 0-255 channels as "#RRGGBB"
+ */
+export const rgbToHex = ({ r, g, b }: RGB): string => {
+  const toHex = (v: number) => Math.max(0, Math.min(255, Math.round(v))).toString(16).padStart(2, '0');
+  return `#${toHex(r)}${toHex(g)}${toHex(b)}`.toUpperCase();
+};
+
+/**
+ * sRGB (0-255) -> CIELAB (D65)
+ */
+export const rgbToLab = ({ r, g, b }: RGB): Lab => {
+  // sRGB companding -> linear
+  const linear = (v: number) => {
+    const c = v / 255;
+    return c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+  };
+  const lr = linear(r) * 100;
+  const lg = linear(g) * 100;
+  const lb = linear(b) * 100;
+
+  // Linear RGB -> XYZ
+  const x = lr * 0.4124564 + lg * 0.3575761 + lb * 0.1804375;
+  const y = lr * 0.2126729 + lg * 0.7151522 + lb * 0.0721750;
+  const z = lr * 0.0193339 + lg * 0.1191920 + lb * 0.9503041;
+
+  // XYZ -> Lab
+  const f = (t: number) => (t > 0.008856 ? Math.cbrt(t) : (7.787 * t) + 16 / 116);
+  const fx = f(x / REF_X);
+  const fy = f(y / REF_Y);
+  const fz = f(z / REF_Z);
+
+  return {
+    L: (116 * fy) - 16,
+    a: 500 * (fx - fy),
+    b: 200 * (fy - fz),
+  };
+};
+
+/**
+ * CIELAB (D65) -> sRGB (0-255, clamped)
+ */
+export const labToRgb = ({ L, a, b }: Lab): RGB => {
+  const fy = (L + 16) / 116;
+  const fx = fy + a / 500;
+  const fz = fy - b / 200;
+  const finv = (t: number) => (t * t * t > 0.008856 ? t * t * t : (t - 16 / 116) / 7.787);
+
+  const x = finv(fx) * REF_X / 100;
+  const y = finv(fy) * REF_Y / 100;
+  const z = finv(fz) * REF_Z / 100;
+
+  const lr = x * 3.2404542 + y * -1.5371385 + z * -0.4985314;
+  const lg = x * -0.9692660 + y * 1.8760108 + z * 0.0415560;
+  const lb = x * 0.0556434 + y * -0.2040259 + z * 1.0572252;
+
+  const gamma = (c: number) => {
+    const v = c <= 0.0031308 ? 12.92 * c : 1.055 * Math.pow(c, 1 / 2.4) - 0.055;
+    return Math.max(0, Math.min(255, v * 255));
+  };
+
+  return { r: gamma(lr), g: gamma(lg), b: gamma(lb) };
+};
+
+/**
+ * Hex -> CIELAB, or null for invalid hex
+ */
+export const hexToLab = (hex: string): Lab | null => {
+  const rgb = hexToRgb(hex);
+  return rgb ? rgbToLab(rgb) : null;
+};
+
+/**
+ * CIEDE2000 color difference (Sharma, Wu & Dalal 2005 reference implementation)
+ */
+export const deltaE2000 = (lab1: Lab, lab2: Lab): number => {
+  const rad = (deg: number) => (deg * Math.PI) / 180;
+  const deg = (r: number) => (r * 180) / Math.PI;
+
+  const C1 = Math.sqrt(lab1.a * lab1.a + lab1.b * lab1.b);
+  const C2 = Math.sqrt(lab2.a * lab2.a + lab2.b * lab2.b);
+  const Cbar = (C1 + C2) / 2;
+  const Cbar7 = Math.pow(Cbar, 7);
+  const G = 0.5 * (1 - Math.sqrt(Cbar7 / (Cbar7 + Math.pow(25, 7))));
+
+  const a1p = (1 + G) * lab1.a;
+  const a2p = (1 + G) * lab2.a;
+  const C1p = Math.sqrt(a1p * a1p + lab1.b * lab1.b);
+  const C2p = Math.sqrt(a2p * a2p + lab2.b * lab2.b);
+
+  const hp = (bb: number, ap: number) => {
+    if (bb === 0 && ap === 0) return 0;
+    const h = deg(Math.atan2(bb, ap));
+    return h >= 0 ? h : h + 360;
+  };
+  const h1p = hp(lab1.b, a1p);
+  const h2p = hp(lab2.b, a2p);
+
+  const dLp = lab2.L - lab1.L;
+  const dCp = C2p - C1p;
+
+  let dhp = 0;
+  if (C1p * C2p !== 0) {
+    dhp = h2p - h1p;
+    if (dhp > 180) dhp -= 360;
+    else if (dhp < -180) dhp += 360;
+  }
+  const dHp = 2 * Math.sqrt(C1p * C2p) * Math.sin(rad(dhp / 2));
+
+  const Lbarp = (lab1.L + lab2.L) / 2;
+  const Cbarp = (C1p + C2p) / 2;
+
+  let hbarp = h1p + h2p;
+  if (C1p * C2p !== 0) {
+    if (Math.abs(h1p - h2p) <= 180) hbarp = (h1p + h2p) / 2;
+    else if (h1p + h2p < 360) hbarp = (h1p + h2p + 360) / 2;
+    else hbarp = (h1p + h2p - 360) / 2;
+  }
+
+  const T = 1
+    - 0.17 * Math.cos(rad(hbarp - 30))
+    + 0.24 * Math.cos(rad(2 * hbarp))
+    + 0.32 * Math.cos(rad(3 * hbarp + 6))
+    - 0.20 * Math.cos(rad(4 * hbarp - 63));
+
+  const dTheta = 30 * Math.exp(-Math.pow((hbarp - 275) / 25, 2));
+  const Cbarp7 = Math.pow(Cbarp, 7);
+  const Rc = 2 * Math.sqrt(Cbarp7 / (Cbarp7 + Math.pow(25, 7)));
+  const Sl = 1 + (0.015 * Math.pow(Lbarp - 50, 2)) / Math.sqrt(20 + Math.pow(Lbarp - 50, 2));
+  const Sc = 1 + 0.045 * Cbarp;
+  const Sh = 1 + 0.015 * Cbarp * T;
+  const Rt = -Math.sin(rad(2 * dTheta)) * Rc;
+
+  return Math.sqrt(
+    Math.pow(dLp / Sl, 2) +
+    Math.pow(dCp / Sc, 2) +
+    Math.pow(dHp / Sh, 2) +
+    Rt * (dCp / Sc) * (dHp / Sh)
+  );
+};
+
+/**
+ * CIEDE2000 distance between two hex colors (Infinity if either is invalid)
+ */
+export const hexDeltaE = (hex1: string, hex2: string): number => {
+  const lab1 = hexToLab(hex1);
+  const lab2 = hexToLab(hex2);
+  if (!lab1 || !lab2) return Infinity;
+  return deltaE2000(lab1, lab2);
+};
+
+// Catalog Lab values are computed once on first use
+let catalogLabCache: { color: PaintColor; lab: Lab }[] | null = null;
+
+const getCatalogLab = (): { color: PaintColor; lab: Lab }[] => {
+  if (!catalogLabCache) {
+    catalogLabCache = Object.values(PAINT_COLORS)
+      .flat()
+      .map(color => ({ color, lab: hexToLab(color.hex) }))
+      .filter((entry): entry is { color: PaintColor; lab: Lab } => entry.lab !== null);
+  }
+  return catalogLabCache;
+};
+
+/**
+ * Rank catalog colors by CIEDE2000 distance from any input hex
+ * @param hex Input color (e.g. sampled from a photo or another brand's chart)
+ * @param options Filters and result limit
+ * @param colors Colors to search (defaults to the full PAINT_COLORS catalog)
+ */
+export const findNearestColors = (
+  hex: string,
+  options: NearestColorOptions = {},
+  colors?: PaintColor[]
+): ColorMatch[] => {
+  const target = hexToLab(hex);
+  if (!target) return [];
+
+  const { limit = 5, manufacturer, category, maxDeltaE } = options;
+  const candidates = colors
+    ? colors.map(color => ({ color, lab: hexToLab(color.hex) }))
+    : getCatalogLab();
+
+  const matches: ColorMatch[] = [];
+  for (const { color, lab } of candidates) {
+    if (!lab) continue;
+    if (manufacturer && color.manufacturer !== manufacturer) continue;
+    if (category && category !== 'both' && color.category !== category && color.category !== 'both') continue;
+
+    const deltaE = deltaE2000(target, lab);
+    if (maxDeltaE !== undefined && deltaE > maxDeltaE) continue;
+    matches.push({ color, deltaE });
+  }
+
+  return matches.sort((a, b) => a.deltaE - b.deltaE).slice(0, limit);
+};
+
+/**
+ * Closest single catalog color, or null if nothing qualifies
+ */
+export const findNearestColor = (
+  hex: string,
+  options: Omit<NearestColorOptions, 'limit'> = {},
+  colors?: PaintColor[]
+): ColorMatch | null => {
+  return findNearestColors(hex, { ...options, limit: 1 }, colors)[0] || null;
+};
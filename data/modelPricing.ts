@@ -0,0 +1,43 @@
+/**
+ * Model Pricing - Gemini API list prices, for estimating what each call cost
+ * USD per 1M tokens (paid tier, prompts under 200k tokens). Update when Google changes prices:
+ * https://ai.google.dev/gemini-api/docs/pricing
+ */
+
+import { ModelUsage } from '../types';
+
+export interface ModelPrice {
+  input: number;
+  cachedInput: number; // Tokens served from a context cache
+  output: number; // Includes thinking tokens; image output is billed per token too
+}
+
+export const MODEL_PRICES: Record<string, ModelPrice> = {
+  'gemini-2.5-pro': { input: 1.25, cachedInput: 0.31, output: 10 },
+  'gemini-2.5-flash': { input: 0.3, cachedInput: 0.075, output: 2.5 },
+  'gemini-2.5-flash-lite': { input: 0.1, cachedInput: 0.025, output: 0.4 },
+  'gemini-2.5-flash-image': { input: 0.3, cachedInput: 0.075, output: 30 }, // ~1290 tokens ≈ $0.039 per image
+  'gemini-2.0-flash': { input: 0.1, cachedInput: 0.025, output: 0.4 },
+  'gemini-1.5-flash': { input: 0.075, cachedInput: 0.01875, output: 0.3 },
+};
+
+/**
+ * Price for a model id; versioned ids ("gemini-2.5-flash-001", "models/…") use their family's price
+ */
+export const getModelPrice = (model: string): ModelPrice | null => {
+  const id = model.replace(/^models\//, '');
+  const family = Object.keys(MODEL_PRICES)
+    .filter(key => id.startsWith(key))
+    .sort((a, b) => b.length - a.length)[0]; // Longest match: "-flash-image" before "-flash"
+  return family ? MODEL_PRICES[family] : null;
+};
+
+/**
+ * Estimated USD cost of one call, or null for a model missing from the table
+ */
+export const estimateCostUSD = (usage: ModelUsage): number | null => {
+  const price = getModelPrice(usage.model);
+  if (!price) return null;
+  const uncachedInput = Math.max(0, usage.promptTokens - usage.cachedTokens);
+  return (uncachedInput * price.input + usage.cachedTokens * price.cachedInput + usage.outputTokens * price.output) / 1_000_000;
+};
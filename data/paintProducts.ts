@@ -0,0 +1,279 @@
+/**
+ * Paint Products - Product lines (finish, sheen, coverage, can sizes) linked to catalog colors
+ * Loaded from data/products/<manufacturer>.json; invalid entries are skipped and reported
+ */
+
+import { PaintColor, getColorByCode } from './paintColors';
+import { CatalogIssue, KNOWN_MANUFACTURERS, formatCatalogIssue } from './catalogLoader';
+
+export type PaintFinish = 'emulsion' | 'satin' | 'gloss' | 'weathershield' | 'primer';
+export type PaintSheen = 'matt' | 'silk' | 'satin' | 'gloss';
+export type ProductUse = 'interior' | 'exterior' | 'both';
+export type ProductTier = 'economy' | 'standard' | 'premium';
+
+export interface CanSize {
+  litres: number;
+  priceGHS?: number; // Reference estimate - store price lists take precedence
+}
+
+export interface PaintProduct {
+  sku: string;
+  name: string;
+  manufacturer: PaintColor['manufacturer'];
+  finish: PaintFinish;
+  sheen: PaintSheen;
+  use: ProductUse;
+  tier: ProductTier;
+  coveragePerLitre: number; // m² per litre per coat on a smooth, sealed surface
+  recommendedCoats: number;
+  sizes: CanSize[]; // Sorted smallest first
+  colorCodes?: string[]; // Colors this line is tinted in; omitted = every compatible color of the manufacturer
+}
+
+export const PAINT_FINISHES: PaintFinish[] = ['emulsion', 'satin', 'gloss', 'weathershield', 'primer'];
+export const PAINT_SHEENS: PaintSheen[] = ['matt', 'silk', 'satin', 'gloss'];
+const PRODUCT_USES: ProductUse[] = ['interior', 'exterior', 'both'];
+export const PRODUCT_TIERS: ProductTier[] = ['economy', 'standard', 'premium']; // Cheapest first
+
+export const TIER_LABELS: Record<ProductTier, string> = {
+  economy: 'Economy',
+  standard: 'Standard',
+  premium: 'Premium',
+};
+
+export const FINISH_LABELS: Record<PaintFinish, string> = {
+  emulsion: 'Emulsion',
+  satin: 'Satin',
+  gloss: 'Gloss',
+  weathershield: 'Weather Shield',
+  primer: 'Primer',
+};
+
+/**
+ * Validate one raw product entry; returns an error message when unusable
+ */
+const toPaintProduct = (
+  entry: unknown,
+  manufacturer: PaintColor['manufacturer']
+): PaintProduct | string => {
+  if (!entry || typeof entry !== 'object') return 'expected a product object';
+  const raw = entry as Record<string, unknown>;
+  const sku = typeof raw.sku === 'string' ? raw.sku.trim() : '';
+  if (!sku) return 'missing sku';
+  const name = typeof raw.name === 'string' ? raw.name.trim() : '';
+  if (!name) return `missing name for ${sku}`;
+
+  const finish = PAINT_FINISHES.find(f => f === raw.finish);
+  if (!finish) {
+    return `unknown finish "${raw.finish ?? ''}" for ${sku} (expected ${PAINT_FINISHES.join(' / ')})`;
+  }
+  const sheen = PAINT_SHEENS.find(s => s === raw.sheen);
+  if (!sheen) {
+    return `unknown sheen "${raw.sheen ?? ''}" for ${sku} (expected ${PAINT_SHEENS.join(' / ')})`;
+  }
+  const use = PRODUCT_USES.find(u => u === raw.use);
+  if (!use) {
+    return `unknown use "${raw.use ?? ''}" for ${sku} (expected ${PRODUCT_USES.join(' / ')})`;
+  }
+  const tier = raw.tier === undefined ? 'standard' : PRODUCT_TIERS.find(t => t === raw.tier);
+  if (!tier) {
+    return `unknown tier "${raw.tier}" for ${sku} (expected ${PRODUCT_TIERS.join(' / ')})`;
+  }
+  const { coveragePerLitre, recommendedCoats } = raw;
+  if (typeof coveragePerLitre !== 'number' || coveragePerLitre <= 0) {
+    return `coveragePerLitre must be a positive number for ${sku}`;
+  }
+
+  const sizes = (Array.isArray(raw.sizes) ? raw.sizes : [])
+    .filter((size): size is Record<string, unknown> => !!size && typeof size === 'object')
+    .filter((size): size is { litres: number; priceGHS?: unknown } => typeof size.litres === 'number' && size.litres > 0);
+  if (sizes.length === 0) return `no valid can sizes for ${sku}`;
+
+  return {
+    sku,
+    name,
+    manufacturer,
+    finish,
+    sheen,
+    use,
+    tier,
+    coveragePerLitre,
+    recommendedCoats: typeof recommendedCoats === 'number' && recommendedCoats > 0 ? recommendedCoats : 2,
+    sizes: sizes
+      .map((size): CanSize => ({
+        litres: size.litres,
+        ...(typeof size.priceGHS === 'number' && size.priceGHS >= 0 ? { priceGHS: size.priceGHS } : {}),
+      }))
+      .sort((a, b) => a.litres - b.litres),
+    ...(Array.isArray(raw.colorCodes) ? { colorCodes: raw.colorCodes.map(String) } : {}),
+  };
+};
+
+/**
+ * Load product files into a flat product list
+ * @param files Map of file name (e.g. "neuce.json") to file contents
+ */
+export const loadProducts = (files: Record<string, string>): { products: PaintProduct[]; issues: CatalogIssue[] } => {
+  const products: PaintProduct[] = [];
+  const issues: CatalogIssue[] = [];
+  const seenSkus = new Set<string>();
+
+  Object.keys(files).sort().forEach((file) => {
+    let data: unknown;
+    try {
+      data = JSON.parse(files[file]);
+    } catch (error) {
+      issues.push({ file, message: `invalid JSON (${error instanceof Error ? error.message : String(error)})` });
+      return;
+    }
+
+    const { manufacturer: named, products: entries } = (data && typeof data === 'object' ? data : {}) as Record<string, unknown>;
+    const declared = typeof named === 'string' ? named : file.replace(/\.json$/i, '');
+    const manufacturer = KNOWN_MANUFACTURERS.find(m => m.toLowerCase() === declared.toLowerCase());
+    if (!manufacturer) {
+      issues.push({ file, message: `unknown manufacturer "${declared}"` });
+      return;
+    }
+    if (!Array.isArray(entries)) {
+      issues.push({ file, message: 'expected an object with a "products" array' });
+      return;
+    }
+
+    entries.forEach((raw: unknown, i: number) => {
+      const product = toPaintProduct(raw, manufacturer);
+      if (typeof product === 'string') {
+        issues.push({ file, row: i + 1, message: product });
+        return;
+      }
+      if (seenSkus.has(product.sku)) {
+        issues.push({ file, row: i + 1, message: `duplicate sku "${product.sku}"` });
+        return;
+      }
+      seenSkus.add(product.sku);
+      products.push(product);
+    });
+  });
+
+  return { products, issues };
+};
+
+const PRODUCT_FILES = import.meta.glob<string>('./products/*.json', {
+  eager: true,
+  query: '?raw',
+  import: 'default',
+});
+
+const loaded = loadProducts(
+  Object.fromEntries(
+    Object.entries(PRODUCT_FILES).map(([path, text]) => [path.split('/').pop() as string, text])
+  )
+);
+
+if (loaded.issues.length > 0) {
+  console.warn(
+    `Paint products: skipped ${loaded.issues.length} invalid entr${loaded.issues.length === 1 ? 'y' : 'ies'}:\n` +
+    loaded.issues.map(formatCatalogIssue).join('\n')
+  );
+}
+
+export const PAINT_PRODUCTS: PaintProduct[] = loaded.products;
+
+export const getProductBySku = (sku: string): PaintProduct | undefined =>
+  PAINT_PRODUCTS.find(p => p.sku === sku);
+
+/**
+ * Can a product line be used where a color is meant to go?
+ */
+const isUseCompatible = (use: ProductUse, category: PaintColor['category'] | undefined): boolean =>
+  !category || use === 'both' || category === 'both' || use === category;
+
+/**
+ * Product lines a color is sold in (primers excluded)
+ */
+export const getProductsForColor = (color: {
+  manufacturer?: PaintColor['manufacturer'];
+  code?: string;
+  category?: PaintColor['category'];
+}): PaintProduct[] => {
+  if (!color.manufacturer) return [];
+  const category = color.category ?? (color.code ? getColorByCode(color.code)?.category : undefined);
+  return PAINT_PRODUCTS.filter(p =>
+    p.manufacturer === color.manufacturer &&
+    p.finish !== 'primer' &&
+    (p.colorCodes ? !!color.code && p.colorCodes.includes(color.code) : isUseCompatible(p.use, category))
+  );
+};
+
+/**
+ * Where to assume a color goes when the space type is unknown
+ * Only interior-only colors stay inside: exterior lines can also be used indoors, but not the other way round
+ */
+const getDefaultLocation = (color: { code?: string; category?: PaintColor['category'] }): 'interior' | 'exterior' => {
+  const category = color.category ?? (color.code ? getColorByCode(color.code)?.category : undefined);
+  return category === 'interior' ? 'interior' : 'exterior';
+};
+
+/**
+ * Default wall product for a color: weather shield outside, emulsion inside
+ */
+export const getDefaultProduct = (
+  color: { manufacturer?: PaintColor['manufacturer']; code?: string; category?: PaintColor['category'] },
+  location?: 'interior' | 'exterior'
+): PaintProduct | undefined => {
+  location = location ?? getDefaultLocation(color);
+  const products = getProductsForColor(color);
+  const preferred: PaintFinish[] = location === 'exterior'
+    ? ['weathershield', 'emulsion', 'satin']
+    : ['emulsion', 'satin', 'weathershield'];
+
+  for (const finish of preferred) {
+    const match = products.find(p => p.finish === finish && p.use !== (location === 'exterior' ? 'interior' : 'exterior'));
+    if (match) return match;
+  }
+  return products[0];
+};
+
+/**
+ * Wall product for a color in a price tier
+ * Falls back to the nearest tier the color is actually sold in (cheaper first when going down)
+ */
+export const getProductForTier = (
+  color: { manufacturer?: PaintColor['manufacturer']; code?: string; category?: PaintColor['category'] },
+  tier: ProductTier,
+  location?: 'interior' | 'exterior'
+): PaintProduct | undefined => {
+  location = location ?? getDefaultLocation(color);
+  const wrongUse = location === 'exterior' ? 'interior' : 'exterior';
+  const products = getProductsForColor(color).filter(p => p.use !== wrongUse && p.finish !== 'gloss');
+
+  const wanted = PRODUCT_TIERS.indexOf(tier);
+  const byDistance = [...products].sort((a, b) => {
+    const da = Math.abs(PRODUCT_TIERS.indexOf(a.tier) - wanted);
+    const db = Math.abs(PRODUCT_TIERS.indexOf(b.tier) - wanted);
+    if (da !== db) return da - db;
+    // Same distance: prefer the cheaper tier, then weather shield outside
+    if (a.tier !== b.tier) return PRODUCT_TIERS.indexOf(a.tier) - PRODUCT_TIERS.indexOf(b.tier);
+    return Number(b.finish === 'weathershield') - Number(a.finish === 'weathershield');
+  });
+  return byDistance[0] || getDefaultProduct(color, location);
+};
+
+/**
+ * Primer for a manufacturer (falls back to any primer in the catalog)
+ */
+export const getPrimerProduct = (manufacturer?: PaintColor['manufacturer']): PaintProduct | undefined => {
+  const primers = PAINT_PRODUCTS.filter(p => p.finish === 'primer');
+  return primers.find(p => p.manufacturer === manufacturer) || primers[0];
+};
+
+/**
+ * SKU for a specific can size, e.g. "NC-WSH-20L"
+ */
+export const getSizeSku = (product: PaintProduct, litres: number): string => `${product.sku}-${litres}L`;
+
+/**
+ * Short description for prompts, e.g. "Neuce Weather Shield (weathershield, matt, 10 m²/L, 4L/20L)"
+ */
+export const formatProductForPrompt = (product: PaintProduct): string =>
+  `${product.name} (${product.finish}, ${product.sheen}, ${product.coveragePerLitre} m²/L per coat, ` +
+  `${product.recommendedCoats} coats, sold in ${product.sizes.map(s => `${s.litres}L`).join('/')})`;
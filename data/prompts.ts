@@ -0,0 +1,202 @@
+/**
+ * Prompt Registry - Every model prompt, versioned, with named {{variables}} and optional A/B variants
+ * The server renders prompts from here; the browser reads the same versions for cache keys, so a
+ * wording change never serves results made with the old wording
+ * Bump an entry's version whenever its text changes. Variant B is optional - without one, B sessions get A
+ */
+
+import type { SpaceType } from '../types';
+
+export type PromptVariant = 'A' | 'B';
+
+export type PromptId =
+  | 'analysis'
+  | 'visualize.context' // Whole house, with the analysis
+  | 'visualize.plain' // Whole house, no analysis
+  | 'visualize.surface' // One surface from the analysis
+  | 'scheme'
+  | 'notes';
+
+export interface PromptTemplate {
+  system: string;
+  user: string;
+}
+
+export interface RenderedPrompt extends PromptTemplate {
+  version: string; // e.g. "analysis@1/B" - stamped on results and cache keys
+}
+
+interface PromptEntry {
+  version: number;
+  variants: { A: PromptTemplate; B?: PromptTemplate };
+}
+
+const ANALYSIS_SYSTEM = `Architectural consultant in Ghana. Write descriptions in simple, clear, helpful language.
+Available paint colors:
+- Neuce collection ({{neuceCount}} colors): {{neuceColors}}
+- Azar collection ({{azarCount}} colors): {{azarColors}}
+
+For AI-CURATED: prioritize colors NOT in NEUCE/AZAR sections. Focus on complementary alternatives, trendy options, or unique combinations. Include colors similar to current wall (for identification) and new complementary colors (for alternatives). Match space style and lighting. Order colors strategically: first positions should mix (1) colors closest to current wall color, and (2) best recommended colors for the space. Most relevant first. Use exact name and hex from lists above.`;
+
+const ANALYSIS_SURFACES = `Identify surface material, condition, and space type (interior/exterior) with your confidence in the space type from 0 to 1.
+
+List each separately paintable surface (main body, columns, window trim, fence wall, gate, ...) with its own material and condition. Main body first; only surfaces visible in the photo.
+
+List each visible defect (crack, peeling, mould, damp, chalking, efflorescence) with its severity (minor/moderate/severe) and a box_2d around it. One entry per distinct area; an empty list when the surface is sound.
+
+For description: Write a simple, informative 1-2 sentence description covering:
+- Key structural features (wall locations, columns, recesses, trim)
+- Treatment needs if any (e.g., 'Requires primer for peeling areas' or 'No treatment needed')
+Use clear, helpful language. Skip aesthetic details.`;
+
+const ANALYSIS_PALETTES = `2. "NEUCE PAINTS" - 4-5 colors from Neuce collection ({{neuceCount}} colors available)
+3. "AZAR PAINTS" - 4-5 colors from Azar collection ({{azarCount}} colors available)
+
+Order colors by relevance. Most recommended first. Use exact color names and hex codes from available collections.`;
+
+const PRESERVE = 'Preserve windows, doors, furniture, sky, vegetation.';
+
+// B render wording: spell out that light and texture stay, only the paint changes
+const KEEP_LIGHTING = 'Keep the photo\'s lighting, shadows and wall texture; change only the paint color.';
+
+// {{spaceHint}} text - part of the visualize.context, visualize.surface and scheme wording (bump them too)
+const SPACE_HINTS: Record<SpaceType, string> = {
+  exterior: 'Outdoor scene: keep the roof, sky, ground and plants unchanged. ',
+  interior: 'Indoor room: keep the ceiling, floor, furniture and fixtures unchanged. ',
+};
+
+const PROMPTS: Record<PromptId, PromptEntry> = {
+  analysis: {
+    version: 3,
+    variants: {
+      A: {
+        system: ANALYSIS_SYSTEM,
+        user: `${ANALYSIS_SURFACES}
+
+Generate 3 palettes:
+1. "AI-CURATED SUGGESTION" - 3-4 colors from available Neuce and Azar collections
+   Prioritize colors NOT in NEUCE/AZAR sections. Include: (a) colors similar to current wall, (b) complementary colors matching space style.
+${ANALYSIS_PALETTES}`,
+      },
+      // B: curated palette built around what stays unpainted (roof, stone, plants) with a spread of depths
+      B: {
+        system: ANALYSIS_SYSTEM,
+        user: `${ANALYSIS_SURFACES}
+
+Generate 3 palettes:
+1. "AI-CURATED SUGGESTION" - 3-4 colors from available Neuce and Azar collections
+   Prioritize colors NOT in NEUCE/AZAR sections. Choose colors that suit what will stay unpainted (roof, stone, tiles, plants) and the light in the photo. Include one light, one mid and one deep tone.
+${ANALYSIS_PALETTES}`,
+      },
+    },
+  },
+  'visualize.context': {
+    version: 2,
+    variants: {
+      A: {
+        system: `Paint visualization tool. Surface: {{surfaceType}} ({{condition}}). Paint ALL painted wall surfaces uniformly with specified color. ${PRESERVE}`,
+        user: `Paint all {{surfaceType}} walls with {{colorName}} ({{colorHex}}).
+Surface: {{condition}}. {{description}}
+Apply uniformly to all painted wall surfaces. {{spaceHint}}${PRESERVE}`,
+      },
+      B: {
+        system: `Paint visualization tool. Surface: {{surfaceType}} ({{condition}}). Paint ALL painted wall surfaces uniformly with specified color. ${KEEP_LIGHTING} ${PRESERVE}`,
+        user: `Paint all {{surfaceType}} walls with {{colorName}} ({{colorHex}}).
+Surface: {{condition}}. {{description}}
+Apply uniformly to all painted wall surfaces. ${KEEP_LIGHTING} {{spaceHint}}${PRESERVE}`,
+      },
+    },
+  },
+  'visualize.plain': {
+    version: 1,
+    variants: {
+      A: {
+        system: `Paint visualization tool. Paint ALL painted wall surfaces uniformly. ${PRESERVE}`,
+        user: `Paint all wall surfaces with {{colorName}} ({{colorHex}}).
+Apply uniformly. ${PRESERVE}`,
+      },
+      B: {
+        system: `Paint visualization tool. Paint ALL painted wall surfaces uniformly. ${KEEP_LIGHTING} ${PRESERVE}`,
+        user: `Paint all wall surfaces with {{colorName}} ({{colorHex}}).
+Apply uniformly. ${KEEP_LIGHTING} ${PRESERVE}`,
+      },
+    },
+  },
+  'visualize.surface': {
+    version: 2,
+    variants: {
+      A: {
+        system: `Paint visualization tool. Repaint ONLY the named surface with the specified color; every other surface keeps its current color. ${PRESERVE}`,
+        user: `Paint only the {{surfaceName}} ({{surfaceMaterial}}, {{surfaceCondition}}) with {{colorName}} ({{colorHex}}).
+Leave every other surface - other walls, trim, columns, fences, gates - exactly as in the photo. {{spaceHint}}${PRESERVE}`,
+      },
+    },
+  },
+  scheme: {
+    version: 2,
+    variants: {
+      A: {
+        system: `Paint visualization tool. Apply each color ONLY to its role's surfaces, uniformly, in a single image. ${PRESERVE}`,
+        user: `Repaint the building with this color scheme:
+{{assignments}}
+{{keepLine}}{{contextLine}}Keep edges between colors crisp. {{spaceHint}}${PRESERVE}`,
+      },
+    },
+  },
+  notes: {
+    version: 1,
+    variants: {
+      A: {
+        system: 'Hardware store sales manager in Koforidua. Give short, practical painting advice for Ghanaian conditions.',
+        user: `Installation notes for painting a {{surfaceType}} wall in {{condition}} condition with '{{colorLabel}}'. {{productLine}} Materials already chosen: {{materials}}. Do not change quantities or prices.`,
+      },
+    },
+  },
+};
+
+/**
+ * {{spaceHint}} for a confident space type; empty when unknown
+ */
+export const getSpaceHint = (spaceType?: SpaceType): string => (spaceType ? SPACE_HINTS[spaceType] : '');
+
+/**
+ * Variant from a request body or storage; anything unknown is A
+ */
+export const toPromptVariant = (value: unknown): PromptVariant => (value === 'B' ? 'B' : 'A');
+
+/**
+ * Variant actually used for a prompt (B falls back to A when the prompt has no B)
+ */
+const resolveVariant = (id: PromptId, variant: PromptVariant): PromptVariant =>
+  PROMPTS[id].variants[variant] ? variant : 'A';
+
+export const getPromptVersion = (id: PromptId, variant: PromptVariant): string =>
+  `${id}@${PROMPTS[id].version}/${resolveVariant(id, variant)}`;
+
+/**
+ * Which single-color render prompt applies
+ */
+export const getVisualizePromptId = (hasSurface: boolean, hasContext: boolean): PromptId =>
+  hasSurface ? 'visualize.surface' : hasContext ? 'visualize.context' : 'visualize.plain';
+
+const fill = (id: PromptId, text: string, variables: Record<string, string | number>): string =>
+  text.replace(/\{\{(\w+)\}\}/g, (_, name: string) => {
+    if (!(name in variables)) throw new Error(`Prompt ${id} needs the variable "${name}".`);
+    return String(variables[name]);
+  });
+
+/**
+ * System instruction and user prompt with every {{variable}} filled in
+ */
+export const renderPrompt = (
+  id: PromptId,
+  variant: PromptVariant,
+  variables: Record<string, string | number>
+): RenderedPrompt => {
+  const template = PROMPTS[id].variants[resolveVariant(id, variant)]!;
+  return {
+    system: fill(id, template.system, variables),
+    user: fill(id, template.user, variables),
+    version: getPromptVersion(id, variant),
+  };
+};
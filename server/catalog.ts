@@ -0,0 +1,28 @@
+/**
+ * Server Catalog - Paint catalog read from data/catalog/ on disk for prompt building
+ * The browser bundles the same files through import.meta.glob (see data/paintColors.ts)
+ */
+
+import { readdirSync, readFileSync } from 'node:fs';
+import path from 'node:path';
+import { loadCatalog, CatalogLoadResult } from '../data/catalogLoader.js';
+
+const CATALOG_DIR = path.join(process.cwd(), 'data', 'catalog');
+
+let catalog: CatalogLoadResult | null = null;
+
+/**
+ * Load once per server instance; the data only changes with a deploy
+ */
+export const getCatalog = (): CatalogLoadResult => {
+  if (catalog) return catalog;
+
+  const files: Record<string, string> = {};
+  for (const file of readdirSync(CATALOG_DIR)) {
+    if (/\.(json|csv)$/i.test(file)) {
+      files[file] = readFileSync(path.join(CATALOG_DIR, file), 'utf8');
+    }
+  }
+  catalog = loadCatalog(files);
+  return catalog;
+};
@@ -0,0 +1,144 @@
+/**
+ * Context Cache - Gemini context caches holding an analyzed photo, one per client and image hash
+ * A photo analyzed again while its cache lives reuses it (TTL extended when it is close to expiring);
+ * the client deletes it when the project is closed, so caches are never shared between clients.
+ * Entries are per server instance - the client keeps its own name → expiry map (services/contextCache.ts),
+ * and renders fall back to the inline photo when the model no longer has a cache
+ */
+
+import { GoogleGenAI } from '@google/genai';
+import { getModelConfig } from './models.js';
+
+export interface ContextCache {
+  name: string; // "cachedContents/..."
+  expiresAt: number; // Timestamp
+}
+
+interface CacheEntry extends ContextCache {
+  clientId: string; // Owner - the only client that may delete it
+}
+
+const TTL_SECONDS = 24 * 60 * 60;
+const REFRESH_WITHIN_MS = 2 * 60 * 60 * 1000; // Extend a reused cache with less than this left
+const MAX_ENTRIES = 500;
+const CACHE_NAME_PATTERN = /^cachedContents\/[\w-]+$/;
+
+const caches = new Map<string, CacheEntry>(); // "clientId:imageHash" → cache
+const released = new Map<string, number>(); // Deleted (or rejected by the model) name → when it would have expired
+
+const expiryOf = (expireTime: string | undefined): number =>
+  (expireTime && Date.parse(expireTime)) || Date.now() + TTL_SECONDS * 1000;
+
+const supportsCaching = (ai: GoogleGenAI): boolean =>
+  typeof ai.caches !== 'undefined' && !!ai.caches.create;
+
+export const isContextCacheName = (name: string): boolean => CACHE_NAME_PATTERN.test(name);
+
+const pruneExpired = (): void => {
+  const now = Date.now();
+  caches.forEach((entry, key) => {
+    if (entry.expiresAt <= now) caches.delete(key);
+  });
+  released.forEach((expiresAt, name) => {
+    if (expiresAt <= now) released.delete(name);
+  });
+};
+
+const findEntry = (name: string): [string, CacheEntry] | undefined =>
+  Array.from(caches.entries()).find(([, entry]) => entry.name === name);
+
+const createCache = async (ai: GoogleGenAI, base64Image: string, signal?: AbortSignal): Promise<ContextCache | null> => {
+  const response = await ai.caches.create({
+    // A cache only serves the model it was created for - the image model reads it
+    model: getModelConfig('visualization').models[0],
+    config: {
+      contents: [
+        { inlineData: { mimeType: 'image/jpeg', data: base64Image } },
+        { text: "Analyze this image structure and identify wall surfaces, materials, and architectural features." }
+      ],
+      ttl: `${TTL_SECONDS}s`,
+      abortSignal: signal
+    }
+  });
+  return response.name ? { name: response.name, expiresAt: expiryOf(response.expireTime) } : null;
+};
+
+const refreshCache = async (ai: GoogleGenAI, name: string, signal?: AbortSignal): Promise<ContextCache> => {
+  const response = await ai.caches.update({ name, config: { ttl: `${TTL_SECONDS}s`, abortSignal: signal } });
+  return { name, expiresAt: expiryOf(response.expireTime) };
+};
+
+/**
+ * Live cache for a photo: reused, refreshed when close to expiring, or created
+ * Returns null when caching is unavailable or the request was cancelled - callers then send the photo inline
+ */
+export const getContextCache = async (
+  ai: GoogleGenAI,
+  clientId: string,
+  imageHash: string,
+  base64Image: string,
+  signal?: AbortSignal
+): Promise<ContextCache | null> => {
+  if (!supportsCaching(ai) || signal?.aborted) return null;
+  pruneExpired();
+
+  const key = `${clientId}:${imageHash}`;
+  const existing = caches.get(key);
+  if (existing && existing.expiresAt - Date.now() > REFRESH_WITHIN_MS) return { name: existing.name, expiresAt: existing.expiresAt };
+
+  try {
+    let cache: ContextCache | null = null;
+    if (existing) {
+      cache = await refreshCache(ai, existing.name, signal).catch(error => {
+        console.warn('Could not extend context cache, creating a new one:', error);
+        return null;
+      });
+    }
+    cache = cache || await createCache(ai, base64Image, signal);
+    if (!cache) return null;
+
+    if (caches.size >= MAX_ENTRIES) caches.delete(caches.keys().next().value!); // Oldest first
+    caches.set(key, { ...cache, clientId });
+    return cache;
+  } catch (error) {
+    // Graceful fallback - context caching not available or failed
+    if (!signal?.aborted) console.warn('Context caching not available, using standard flow:', error);
+    return null;
+  }
+};
+
+/**
+ * Whether a cache name the client sent can still be used
+ * Released names never pass; other unknown names do - another instance may have created them
+ */
+export const isContextCacheLive = (name: string): boolean => {
+  if (!isContextCacheName(name) || released.has(name)) return false;
+  const entry = findEntry(name)?.[1];
+  return entry ? entry.expiresAt > Date.now() : true;
+};
+
+/**
+ * Stop sending a cache name to the model (deleted, or the model no longer knows it)
+ */
+export const markContextCacheDead = (name: string): void => {
+  const found = findEntry(name);
+  if (found) caches.delete(found[0]);
+  if (released.size >= MAX_ENTRIES) released.delete(released.keys().next().value!);
+  released.set(name, found?.[1].expiresAt ?? Date.now() + TTL_SECONDS * 1000);
+};
+
+/**
+ * Delete a cache early (project closed); already-expired or unknown caches are not an error
+ * A cache this instance knows to belong to another client is left alone
+ */
+export const deleteContextCache = async (ai: GoogleGenAI, name: string, clientId: string): Promise<void> => {
+  const owner = findEntry(name)?.[1].clientId;
+  if (owner !== undefined && owner !== clientId) return;
+  markContextCacheDead(name);
+  if (!supportsCaching(ai)) return;
+  try {
+    await ai.caches.delete({ name });
+  } catch (error: any) {
+    if (error?.status !== 404 && error?.status !== 403) console.warn('Could not delete context cache:', error);
+  }
+};
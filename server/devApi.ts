@@ -0,0 +1,84 @@
+/**
+ * Dev API - Local stand-in for the Vercel serverless routes
+ * Serves api/<route>.ts from the Vite dev server so `npm run dev` works without the Vercel CLI
+ */
+
+import { existsSync } from 'node:fs';
+import path from 'node:path';
+import type { IncomingMessage } from 'node:http';
+import type { Plugin } from 'vite';
+
+type RouteHandler = (request: Request) => Promise<Response>;
+
+const readBody = (req: IncomingMessage): Promise<Buffer> =>
+  new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => chunks.push(chunk));
+    req.on('end', () => resolve(Buffer.concat(chunks)));
+    req.on('error', reject);
+  });
+
+/**
+ * Vite plugin: routes /api/* requests to the matching handler in api/
+ * @param env Server-only variables (e.g. GEMINI_API_KEY) loaded from .env
+ */
+export const devApi = (env: Record<string, string>): Plugin => ({
+  name: 'huey-dev-api',
+  apply: 'serve',
+  configureServer(server) {
+    // Handlers read the key from process.env, as they do on Vercel
+    for (const [key, value] of Object.entries(env)) {
+      if (value && process.env[key] === undefined) process.env[key] = value;
+    }
+
+    server.middlewares.use(async (req, res, next) => {
+      const route = req.url?.split('?')[0].match(/^\/api\/([\w-]+)$/)?.[1];
+      if (!route) return next();
+
+      const send = (status: number, body: unknown) => {
+        res.statusCode = status;
+        res.setHeader('Content-Type', 'application/json');
+        res.end(JSON.stringify(body));
+      };
+
+      const file = path.join(server.config.root, 'api', `${route}.ts`);
+      if (!existsSync(file)) return send(404, { error: `No API route /api/${route}` });
+
+      try {
+        const module = await server.ssrLoadModule(file);
+        const handler = module[req.method || 'GET'] as RouteHandler | undefined;
+        if (!handler) return send(405, { error: `${req.method} not allowed on /api/${route}` });
+
+        const headers = new Headers();
+        for (const [key, value] of Object.entries(req.headers)) {
+          if (value !== undefined) headers.set(key, Array.isArray(value) ? value.join(', ') : value);
+        }
+        if (!headers.has('x-forwarded-for') && req.socket.remoteAddress) {
+          headers.set('x-forwarded-for', req.socket.remoteAddress);
+        }
+
+        // Abort the handler's work when the browser cancels the request, as Vercel does
+        const controller = new AbortController();
+        res.on('close', () => {
+          if (!res.writableFinished) controller.abort();
+        });
+
+        const hasBody = req.method !== 'GET' && req.method !== 'HEAD';
+        const response = await handler(new Request(`http://${req.headers.host || 'localhost'}${req.url}`, {
+          method: req.method,
+          headers,
+          body: hasBody ? await readBody(req) : undefined,
+          signal: controller.signal,
+        }));
+
+        res.statusCode = response.status;
+        response.headers.forEach((value, key) => res.setHeader(key, value));
+        res.end(Buffer.from(await response.arrayBuffer()));
+      } catch (error) {
+        server.ssrFixStacktrace(error as Error);
+        console.error(`/api/${route} failed:`, error);
+        send(500, { error: 'Local API route failed. See the dev server console.' });
+      }
+    });
+  },
+});
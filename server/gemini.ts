@@ -0,0 +1,506 @@
+/**
+ * Server Gemini - The only place the Gemini API key lives (model names: see models.ts)
+ * Schemas and calls for analysis, visualization and installation notes (prompt text: data/prompts.ts)
+ */
+
+import { GoogleGenAI, Type, Schema, GenerateContentParameters } from '@google/genai';
+import type { AnalysisResult, ModelUsage, SchemeRole, SpaceType } from '../types.js';
+import { ROLE_DESCRIPTIONS, SCHEME_ROLES } from '../services/colorScheme.js';
+import { SPACE_TYPES } from '../services/spaceType.js';
+import { DEFECT_SEVERITIES, DEFECT_TYPES } from '../services/defectPrep.js';
+import { formatColorsForPrompt } from '../data/catalogLoader.js';
+import { renderPrompt, getVisualizePromptId, getSpaceHint, PromptVariant } from '../data/prompts.js';
+import { ValidationResult, validateAnalysisResult, validateNotesResponse } from '../services/ai/validation.js';
+import { getCatalog } from './catalog.js';
+import { ApiError, requireString, optionalString } from './http.js';
+import { getModelConfig, shouldTryNextModel, ModelOperation } from './models.js';
+import { getContextCache, isContextCacheLive, deleteContextCache, markContextCacheDead } from './contextCache.js';
+
+let client: GoogleGenAI | null = null;
+
+const getClient = (): GoogleGenAI => {
+  if (client) return client;
+  const apiKey = process.env.GEMINI_API_KEY;
+  if (!apiKey) {
+    throw new ApiError(500, 'The server is missing GEMINI_API_KEY.');
+  }
+  client = new GoogleGenAI({ apiKey });
+  return client;
+};
+
+/**
+ * Turn Gemini SDK errors into client-safe API errors (quota → 429 with retry delay)
+ */
+export const toApiError = (error: any): ApiError => {
+  if (error instanceof ApiError) return error;
+  if (error?.status === 429 || error?.error?.code === 429) {
+    const retryAfter = error.error?.details?.find((d: any) => d['@type']?.includes('RetryInfo'))?.retryDelay;
+    const retrySeconds = retryAfter ? parseInt(retryAfter.replace('s', '')) : 30;
+    return new ApiError(
+      429,
+      `API quota exceeded. Please wait ${retrySeconds} seconds and try again. ` +
+      `Visit: https://ai.google.dev/gemini-api/docs/rate-limits`,
+      { retryAfterSeconds: retrySeconds, code: 'quota' }
+    );
+  }
+  console.error('Gemini request failed:', error);
+  return new ApiError(502, 'The AI service is unavailable right now. Please try again.');
+};
+
+type ContentRequest = Omit<GenerateContentParameters, 'model'>;
+
+/**
+ * generateContent on the operation's model chain; the first model that answers wins
+ * Moves on to the next model when one is retired, out of quota or failing (see shouldTryNextModel)
+ * @param usage Collects the tokens of every successful call, for the client's cost ledger
+ * @param cacheName Context cache the request reads - a 403/404 then means the cache is gone (no other model can read it)
+ */
+const generateContent = async (
+  operation: ModelOperation,
+  request: ContentRequest,
+  usage: ModelUsage[],
+  signal?: AbortSignal,
+  cacheName?: string
+) => {
+  const client = getClient();
+  const { models, temperature, maxOutputTokens } = getModelConfig(operation);
+
+  for (let i = 0; ; i++) {
+    try {
+      const response = await client.models.generateContent({
+        ...request,
+        model: models[i],
+        config: { temperature, maxOutputTokens, ...request.config, abortSignal: signal },
+      });
+      const metadata = response.usageMetadata;
+      usage.push({
+        operation,
+        model: models[i],
+        promptTokens: metadata?.promptTokenCount ?? 0,
+        cachedTokens: metadata?.cachedContentTokenCount ?? 0,
+        outputTokens: (metadata?.candidatesTokenCount ?? 0) + (metadata?.thoughtsTokenCount ?? 0),
+      });
+      return response;
+    } catch (error: any) {
+      if (signal?.aborted) throw new ApiError(499, 'Request cancelled.');
+      const status = error?.status ?? error?.error?.code;
+      if (cacheName && (status === 403 || status === 404)) {
+        throw new ApiError(410, 'The context cache is no longer available.', { code: 'cache_unavailable' });
+      }
+      if (i < models.length - 1 && shouldTryNextModel(error)) {
+        console.warn(`${operation}: ${models[i]} failed (${error?.status ?? 'no status'}), falling back to ${models[i + 1]}`);
+        continue;
+      }
+      throw toApiError(error);
+    }
+  }
+};
+
+const MAX_REPAIR_ECHO_CHARS = 8000; // Invalid response echoed back in the repair prompt
+
+/**
+ * Generate JSON and validate it against the app's shape
+ * On failure, asks the model once to repair its own output (text-only, cheap), then gives up with invalid_response
+ */
+const generateValidated = async <T>(
+  operation: ModelOperation,
+  params: ContentRequest,
+  validate: (raw: unknown) => ValidationResult<T>,
+  label: string,
+  usage: ModelUsage[],
+  signal?: AbortSignal
+): Promise<T> => {
+  const attempt = async (request: ContentRequest) => {
+    const response = await generateContent(operation, request, usage, signal);
+
+    const text = response.text || '';
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(text);
+    } catch {
+      const result: ValidationResult<T> = { ok: false, errors: [text ? 'response is not valid JSON' : 'empty response'], repairs: [] };
+      return { text, result };
+    }
+    return { text, result: validate(parsed) };
+  };
+
+  const first = await attempt(params);
+  if (first.result.ok) {
+    if (first.result.repairs.length > 0) console.warn(`Normalized ${label} response:`, first.result.repairs);
+    return first.result.value;
+  }
+
+  console.warn(`Invalid ${label} response, asking for a repair:`, first.result.errors);
+  const repaired = await attempt({
+    contents: {
+      parts: [
+        { text: `Your previous ${label} response did not match the required JSON schema.
+Problems: ${first.result.errors.join('; ')}
+Previous response:
+${first.text.slice(0, MAX_REPAIR_ECHO_CHARS) || '(empty)'}
+
+Return the corrected JSON only. Keep every valid value; fill in missing required fields.` }
+      ]
+    },
+    config: params.config,
+  });
+  if (repaired.result.ok) return repaired.result.value;
+
+  console.error(`Repaired ${label} response is still invalid:`, repaired.result.errors);
+  throw new ApiError(502, `The AI returned an incomplete ${label}. Please try again.`, { code: 'invalid_response', usage });
+};
+
+/**
+ * Analyzes the uploaded image to identify surface, condition, and suggest colors.
+ * Palettes come back as the model wrote them; the client snaps them to the catalog.
+ */
+export const analyzeImage = async (
+  base64Image: string,
+  fullSizeImage: string | undefined, // Full size image for context caching
+  imageHash: string, // Key for reusing the photo's context cache
+  clientId: string, // Owner of the context cache - only it may release the cache
+  variant: PromptVariant = 'A',
+  signal?: AbortSignal, // Cancels the model call and skips the cache when the client gave up
+  usage: ModelUsage[] = []
+): Promise<AnalysisResult & { cacheName?: string; cacheExpiresAt?: number }> => {
+  const analysisSchema: Schema = {
+    type: Type.OBJECT,
+    properties: {
+      surfaceType: { type: Type.STRING, description: "Main body material: Concrete/Plaster/Wood" },
+      condition: { type: Type.STRING, description: "Main body condition: New/Good/Peeling/Moldy" },
+      spaceType: { type: Type.STRING, enum: ['interior', 'exterior'], description: "Whether the photo shows an interior room or the outside of a building" },
+      spaceTypeConfidence: { type: Type.NUMBER, description: "Confidence in spaceType from 0 (guess) to 1 (certain)" },
+      surfaces: {
+        type: Type.ARRAY,
+        description: "Separately paintable surfaces visible in the photo, main body first",
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            name: { type: Type.STRING, description: "Short name, e.g. Main body, Columns, Window trim, Fence wall, Gate" },
+            material: { type: Type.STRING, description: "Concrete/Plaster/Wood/Metal" },
+            condition: { type: Type.STRING, description: "New/Good/Peeling/Moldy/Rusty" }
+          },
+          required: ["name", "material", "condition"]
+        }
+      },
+      defects: {
+        type: Type.ARRAY,
+        description: "Visible paint and wall defects that need prep before painting; empty if none",
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            type: { type: Type.STRING, enum: DEFECT_TYPES },
+            severity: { type: Type.STRING, enum: DEFECT_SEVERITIES },
+            box_2d: {
+              type: Type.ARRAY,
+              items: { type: Type.INTEGER },
+              description: "Location as [ymin, xmin, ymax, xmax], each 0-1000 of the photo's height or width"
+            },
+            note: { type: Type.STRING, description: "Short location or extent, e.g. Hairline cracks below the left window" }
+          },
+          required: ["type", "severity", "box_2d"]
+        }
+      },
+      description: {
+        type: Type.STRING,
+        description: "Simple, informative description: Key structural features (wall locations, columns, recesses) and treatment needs if any. Keep concise (1-2 sentences). Tone: clear and helpful. Example: 'Front and side walls visible with two columns. Requires primer for peeling areas.'"
+      },
+      estimatedAreaWarning: { type: Type.STRING, description: "Note about measurements needed" },
+      palettes: {
+        type: Type.ARRAY,
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            name: { type: Type.STRING },
+            description: { type: Type.STRING },
+            colors: {
+              type: Type.ARRAY,
+              items: {
+                type: Type.OBJECT,
+                properties: {
+                  name: { type: Type.STRING, description: "Paint color name" },
+                  hex: { type: Type.STRING, description: "Hex color code" }
+                }
+              },
+              description: "Colors ordered by relevance - most recommended colors first, then alternatives"
+            }
+          }
+        }
+      }
+    }
+  };
+
+  // Get real paint colors from manufacturer data
+  const { colors } = getCatalog();
+  const neuceColors = colors.neuce || [];
+  const azarColors = colors.azar || [];
+
+  const prompt = renderPrompt('analysis', variant, {
+    neuceCount: neuceColors.length,
+    azarCount: azarColors.length,
+    neuceColors: formatColorsForPrompt(neuceColors),
+    azarColors: formatColorsForPrompt(azarColors),
+  });
+
+  const analysis = await generateValidated('analysis', {
+    contents: {
+      parts: [
+        { inlineData: { mimeType: 'image/jpeg', data: base64Image } },
+        { text: prompt.user }
+      ]
+    },
+    config: {
+      responseMimeType: 'application/json',
+      responseSchema: analysisSchema,
+      systemInstruction: prompt.system
+    }
+  }, validateAnalysisResult, 'analysis', usage, signal);
+
+  // PHASE 2.1: Cached content for reuse in visualization (cost optimization)
+  // Use full size image if provided, otherwise use analysis image
+  const cache = await getContextCache(getClient(), clientId, imageHash, fullSizeImage || base64Image, signal);
+  const stamped = { ...analysis, promptVersion: prompt.version };
+  return cache ? { ...stamped, cacheName: cache.name, cacheExpiresAt: cache.expiresAt } : stamped;
+};
+
+/**
+ * Delete a photo's context cache once its project is closed (only the client that created it can)
+ */
+export const releaseContextCache = (cacheName: string, clientId: string): Promise<void> =>
+  deleteContextCache(getClient(), cacheName, clientId);
+
+export interface VisualizationContext {
+  surfaceType: string;
+  condition: string;
+  description: string;
+  spaceType?: SpaceType; // Only sent when the analysis was confident
+  cacheName?: string;
+}
+
+/**
+ * Context cache name from the client, dropped when it is malformed or known to have expired
+ */
+const readCacheName = (context: Record<string, unknown>): string | undefined => {
+  const cacheName = optionalString(context, 'cacheName', 200);
+  return cacheName && isContextCacheLive(cacheName) ? cacheName : undefined;
+};
+
+/**
+ * Optional "context" object of a visualization request body
+ */
+export const readVisualizationContext = (value: unknown): VisualizationContext | undefined => {
+  if (!value || typeof value !== 'object') return undefined;
+  const context = value as Record<string, unknown>;
+  return {
+    surfaceType: requireString(context, 'surfaceType', 100),
+    condition: requireString(context, 'condition', 100),
+    description: optionalString(context, 'description', 1000) || '',
+    spaceType: SPACE_TYPES.find(type => type === context.spaceType),
+    cacheName: readCacheName(context),
+  };
+};
+
+/**
+ * One surface from the analysis; when given, only that surface is repainted
+ */
+export interface TargetSurface {
+  name: string;
+  material: string;
+  condition: string;
+}
+
+/**
+ * Image-model call shared by single-color and scheme renders
+ * Uses the analysis context cache when available, otherwise sends the photo inline -
+ * also when the model no longer has the cache (released by another tab, expired, other instance)
+ */
+const renderImage = async (
+  base64Image: string,
+  prompt: string,
+  systemInstruction: string,
+  usage: ModelUsage[],
+  cacheName?: string,
+  signal?: AbortSignal
+): Promise<string> => {
+  // PHASE 2.1: Use cached content if available (reduces image token costs by 200-400 tokens)
+  // The API rejects a system instruction next to cached content, so with the cache it leads the prompt instead
+  const send = (useCache: boolean) => generateContent('visualization', useCache
+    ? {
+      contents: { parts: [{ text: `${systemInstruction}\n\n${prompt}` }] },
+      config: { cachedContent: cacheName }
+    }
+    : {
+      contents: {
+        parts: [
+          { inlineData: { mimeType: 'image/jpeg', data: base64Image } },
+          { text: prompt }
+        ]
+      },
+      config: {
+        systemInstruction
+      }
+    }, usage, signal, useCache ? cacheName : undefined);
+
+  let response;
+  try {
+    response = await send(!!cacheName);
+  } catch (error) {
+    if (!(error instanceof ApiError) || error.code !== 'cache_unavailable') throw error;
+    console.warn(`Context cache ${cacheName} is gone, sending the photo inline`);
+    markContextCacheDead(cacheName!);
+    response = await send(false);
+  }
+
+  // Check for errors in response
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (finishReason === 'SAFETY') {
+    throw new ApiError(422, "Content was blocked for safety reasons. Try a different color.", { code: 'safety', usage });
+  }
+
+  // Extract the image from the response
+  const parts = response.candidates?.[0]?.content?.parts;
+  if (parts) {
+    for (const part of parts) {
+      if (part.inlineData && part.inlineData.data) {
+        // Check if result is identical to input (simple string comparison)
+        // This won't catch subtle changes, but will catch exact duplicates
+        const inputBase64 = base64Image.replace(/^data:image\/[^;]+;base64,/, ''); // Remove prefix if present
+        if (inputBase64 === part.inlineData.data) {
+          throw new ApiError(422, "The AI returned an unchanged image. Please try a different color or upload a clearer photo of the walls.", { usage });
+        }
+        return `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
+      }
+    }
+  }
+
+  console.error('No image data in response. Response structure:', {
+    candidates: response.candidates?.length,
+    finishReason,
+    parts: parts?.length
+  });
+  throw new ApiError(502, "Failed to generate visualization image. No image data in response.", { usage });
+};
+
+export interface RenderResult {
+  image: string; // Data URL
+  promptVersion: string; // See data/prompts.ts
+}
+
+/**
+ * Generates a visualized image with the new color applied.
+ * Reuses surface analysis data and supports context caching for cost optimization
+ * @param signal Aborts the model call when the client disconnects
+ * @param usage Collects token counts for the response (see generateContent)
+ */
+export const visualizeImage = async (
+  base64Image: string,
+  colorName: string,
+  colorHex: string,
+  analysisContext?: VisualizationContext,
+  surface?: TargetSurface,
+  variant: PromptVariant = 'A',
+  signal?: AbortSignal,
+  usage: ModelUsage[] = []
+): Promise<RenderResult> => {
+  // Normalize hex value for consistent processing
+  const normalizedHex = colorHex.trim().toUpperCase().replace(/^#/, '');
+
+  const prompt = renderPrompt(getVisualizePromptId(!!surface, !!analysisContext), variant, {
+    colorName,
+    colorHex: `#${normalizedHex}`,
+    surfaceName: surface?.name ?? '',
+    surfaceMaterial: surface?.material ?? '',
+    surfaceCondition: surface?.condition ?? '',
+    surfaceType: analysisContext?.surfaceType ?? '',
+    condition: analysisContext?.condition ?? '',
+    description: analysisContext?.description ?? '',
+    spaceHint: getSpaceHint(analysisContext?.spaceType),
+  });
+
+  const image = await renderImage(base64Image, prompt.user, prompt.system, usage, analysisContext?.cacheName, signal);
+  return { image, promptVersion: prompt.version };
+};
+
+export interface SchemeColor {
+  role: SchemeRole;
+  colorName: string;
+  colorHex: string;
+}
+
+/**
+ * One combined render of a body/trim/accent scheme
+ */
+export const visualizeScheme = async (
+  base64Image: string,
+  scheme: SchemeColor[],
+  analysisContext?: VisualizationContext,
+  variant: PromptVariant = 'A',
+  signal?: AbortSignal,
+  usage: ModelUsage[] = []
+): Promise<RenderResult> => {
+  const assignments = scheme
+    .map(({ role, colorName, colorHex }) =>
+      `- ${role.toUpperCase()} (${ROLE_DESCRIPTIONS[role]}): ${colorName} (#${colorHex.trim().toUpperCase().replace(/^#/, '')})`)
+    .join('\n');
+  const unassigned = SCHEME_ROLES.filter(role => !scheme.some(s => s.role === role));
+
+  const prompt = renderPrompt('scheme', variant, {
+    assignments,
+    keepLine: unassigned.length > 0 ? `Keep the ${unassigned.map(role => ROLE_DESCRIPTIONS[role]).join(' and ')} as they are.\n` : '',
+    contextLine: analysisContext ? `Surface: ${analysisContext.surfaceType} (${analysisContext.condition}). ${analysisContext.description}\n` : '',
+    spaceHint: getSpaceHint(analysisContext?.spaceType),
+  });
+
+  const image = await renderImage(base64Image, prompt.user, prompt.system, usage, analysisContext?.cacheName, signal);
+  return { image, promptVersion: prompt.version };
+};
+
+export interface NotesRequest {
+  surfaceType: string;
+  condition: string;
+  colorLabel: string;
+  product?: string; // Product line description, e.g. "Neuce Weather Shield (weathershield, ...)"
+  materials: string[]; // "2 Can(s) Neuce Weather Shield - Terracotta 4L"
+}
+
+/**
+ * Practical installation notes for a calculated shopping list.
+ * Quantities and prices stay exactly as the client calculated them.
+ */
+export const generateNotes = async (
+  request: NotesRequest,
+  variant: PromptVariant = 'A',
+  signal?: AbortSignal,
+  usage: ModelUsage[] = []
+): Promise<{ installationNotes: string; promptVersion: string }> => {
+  const notesSchema: Schema = {
+    type: Type.OBJECT,
+    properties: {
+      installationNotes: { type: Type.STRING, description: "2-3 sentences of practical prep and application advice" }
+    }
+  };
+
+  const { surfaceType, condition, colorLabel, product, materials } = request;
+
+  const prompt = renderPrompt('notes', variant, {
+    surfaceType,
+    condition,
+    colorLabel,
+    productLine: product ? ` Product: ${product}.` : '',
+    materials: materials.join('; '),
+  });
+
+  const { installationNotes } = await generateValidated('notes', {
+    contents: {
+      parts: [
+        { text: prompt.user }
+      ]
+    },
+    config: {
+      responseMimeType: 'application/json',
+      responseSchema: notesSchema,
+      systemInstruction: prompt.system
+    }
+  }, validateNotesResponse, 'installation notes', usage, signal);
+  return { installationNotes, promptVersion: prompt.version };
+};
@@ -0,0 +1,123 @@
+/**
+ * HTTP helpers shared by the API routes in api/
+ * Routes use Web-standard Request/Response so the same handler runs on Vercel and in the Vite dev server
+ */
+
+import type { ModelUsage } from '../types.js';
+
+export type ApiErrorCode =
+  | 'invalid_response' // Model output failed validation, even after a repair attempt
+  | 'quota' // Gemini quota exhausted; retryAfterSeconds carries the model's retryDelay
+  | 'rate_limited' // Per-client limit in server/rateLimit.ts
+  | 'safety' // Blocked by the model's safety filters
+  | 'cache_unavailable'; // Context cache deleted or expired - renders retry with the photo inline, so clients never see it
+
+export class ApiError extends Error {
+  status: number;
+  retryAfterSeconds?: number;
+  code?: ApiErrorCode;
+  usage?: ModelUsage[]; // Tokens already spent before the failure - still billed
+
+  constructor(
+    status: number,
+    message: string,
+    options: { retryAfterSeconds?: number; code?: ApiErrorCode; usage?: ModelUsage[] } = {}
+  ) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.retryAfterSeconds = options.retryAfterSeconds;
+    this.code = options.code;
+    this.usage = options.usage;
+  }
+}
+
+/**
+ * JSON response with the right content type
+ */
+export const json = (body: unknown, status = 200, headers: Record<string, string> = {}): Response =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', 'Cache-Control': 'no-store', ...headers },
+  });
+
+/**
+ * Parse the request body as a JSON object
+ */
+export const readJson = async (request: Request): Promise<Record<string, unknown>> => {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    throw new ApiError(400, 'Request body must be JSON.');
+  }
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    throw new ApiError(400, 'Request body must be a JSON object.');
+  }
+  return body as Record<string, unknown>;
+};
+
+/**
+ * Required string field with a length cap (guards against oversized prompts)
+ */
+export const requireString = (body: Record<string, unknown>, field: string, maxLength: number): string => {
+  const value = body[field];
+  if (typeof value !== 'string' || value.trim() === '') {
+    throw new ApiError(400, `Missing "${field}".`);
+  }
+  if (value.length > maxLength) {
+    throw new ApiError(413, `"${field}" is too large.`);
+  }
+  return value;
+};
+
+/**
+ * Optional string field; empty strings count as missing
+ */
+export const optionalString = (body: Record<string, unknown>, field: string, maxLength: number): string | undefined => {
+  if (body[field] === undefined || body[field] === null || body[field] === '') return undefined;
+  return requireString(body, field, maxLength);
+};
+
+/**
+ * Required "#RRGGBB" (or "RRGGBB") color field
+ */
+export const requireHexColor = (body: Record<string, unknown>, field: string): string => {
+  const value = requireString(body, field, 7);
+  if (!/^#?[0-9A-Fa-f]{6}$/.test(value.trim())) {
+    throw new ApiError(400, `Invalid color "${value}". Expected a hex code like #E2725B.`);
+  }
+  return value;
+};
+
+/**
+ * Best-effort client identifier for rate limiting (first forwarded address)
+ */
+export const getClientId = (request: Request): string => {
+  const forwarded = request.headers.get('x-forwarded-for');
+  if (forwarded) return forwarded.split(',')[0].trim();
+  return request.headers.get('x-real-ip') || 'local';
+};
+
+/**
+ * Wrap a route handler: known errors become JSON error responses, anything else is a 500
+ */
+export const handle = (handler: (request: Request) => Promise<Response>) =>
+  async (request: Request): Promise<Response> => {
+    try {
+      return await handler(request);
+    } catch (error) {
+      if (error instanceof ApiError) {
+        const headers: Record<string, string> = error.retryAfterSeconds !== undefined
+          ? { 'Retry-After': String(error.retryAfterSeconds) }
+          : {};
+        return json(
+          { error: error.message, code: error.code, retryAfterSeconds: error.retryAfterSeconds, usage: error.usage },
+          error.status,
+          headers
+        );
+      }
+      console.error('Unhandled API error:', error);
+      return json({ error: 'Something went wrong on our side. Please try again.' }, 500);
+    }
+  };
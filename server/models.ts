@@ -0,0 +1,71 @@
+/**
+ * Model Registry - Which Gemini model each operation uses, with its settings and fallbacks
+ * Every value can be overridden from the environment without a code change:
+ *   GEMINI_MODEL_<OPERATION>        comma-separated chain, primary first ("gemini-2.5-pro,gemini-2.5-flash")
+ *   GEMINI_TEMPERATURE_<OPERATION>  0-2
+ *   GEMINI_MAX_TOKENS_<OPERATION>   maximum output tokens
+ * where OPERATION is ANALYSIS, VISUALIZATION or NOTES
+ */
+
+import type { ModelOperation } from '../types.js';
+
+export type { ModelOperation };
+
+export interface ModelConfig {
+  models: string[]; // Tried in order; later entries are fallbacks
+  temperature?: number; // Unset = the model's default
+  maxOutputTokens?: number;
+}
+
+const DEFAULT_MODELS: Record<ModelOperation, ModelConfig> = {
+  analysis: {
+    models: ['gemini-2.5-flash', 'gemini-2.0-flash'],
+  },
+  visualization: {
+    models: ['gemini-2.5-flash-image', 'gemini-2.5-flash-image-preview'],
+  },
+  notes: {
+    // Cheaper models first - notes are text-only and short
+    models: ['gemini-1.5-flash', 'gemini-2.5-flash-lite', 'gemini-2.5-flash'],
+    maxOutputTokens: 1024,
+  },
+};
+
+const readNumber = (name: string, min: number, max: number): number | undefined => {
+  const raw = process.env[name]?.trim();
+  if (!raw) return undefined;
+  const value = Number(raw);
+  if (!Number.isFinite(value) || value < min || value > max) {
+    console.warn(`Ignoring ${name}="${raw}": expected a number from ${min} to ${max}.`);
+    return undefined;
+  }
+  return value;
+};
+
+/**
+ * Defaults for an operation with any environment overrides applied
+ */
+export const getModelConfig = (operation: ModelOperation): ModelConfig => {
+  const suffix = operation.toUpperCase();
+  const defaults = DEFAULT_MODELS[operation];
+  const models = (process.env[`GEMINI_MODEL_${suffix}`] || '')
+    .split(',')
+    .map(model => model.trim())
+    .filter(Boolean);
+
+  return {
+    models: models.length > 0 ? models : defaults.models,
+    temperature: readNumber(`GEMINI_TEMPERATURE_${suffix}`, 0, 2) ?? defaults.temperature,
+    maxOutputTokens: readNumber(`GEMINI_MAX_TOKENS_${suffix}`, 1, 65536) ?? defaults.maxOutputTokens,
+  };
+};
+
+/**
+ * Whether a failed call is worth repeating on the next model in the chain:
+ * retired or unknown model (404), per-model quota (429), model-side failures (5xx)
+ * Bad requests and auth errors would fail the same way on every model
+ */
+export const shouldTryNextModel = (error: any): boolean => {
+  const status = error?.status ?? error?.error?.code;
+  return status === 404 || status === 429 || (typeof status === 'number' && status >= 500);
+};
@@ -0,0 +1,163 @@
+/**
+ * Server Rate Limit - Authoritative per-client limits for the API routes
+ * Mirrors the client-side LIMITS; the browser limiter only drives the UI and can be cleared by the user
+ * State is in memory per server instance, which is enough to stop casual abuse of the shared key
+ */
+
+import { LIMITS } from '../services/rateLimiter.js';
+import { ApiError } from './http.js';
+
+const NOTES_PER_HOUR = 20; // Text-only notes are cheap but still billed
+const MAX_TRACKED_CLIENTS = 5000; // Drop stale entries beyond this to bound memory
+
+interface ClientUsage {
+  day: string; // YYYY-MM-DD (UTC)
+  visualizations: number;
+  hourWindow: number; // Start of current hour (timestamp)
+  hourlyVisualizations: number;
+  notes: number;
+  lastVisualization: number; // Timestamp
+  images: Set<string>; // Image hashes analyzed today
+}
+
+const usage = new Map<string, ClientUsage>();
+
+function getTodayString(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+function getCurrentHourWindow(): number {
+  const now = Date.now();
+  return now - (now % (60 * 60 * 1000));
+}
+
+function secondsUntil(timestamp: number): number {
+  return Math.max(1, Math.ceil((timestamp - Date.now()) / 1000));
+}
+
+/**
+ * Usage for a client, reset when the day or hour rolls over
+ */
+function getUsage(clientId: string): ClientUsage {
+  const today = getTodayString();
+  const hour = getCurrentHourWindow();
+  let entry = usage.get(clientId);
+
+  if (!entry || entry.day !== today) {
+    if (!entry && usage.size >= MAX_TRACKED_CLIENTS) {
+      usage.forEach((value, key) => {
+        if (value.day !== today) usage.delete(key);
+      });
+    }
+    entry = {
+      day: today,
+      visualizations: 0,
+      hourWindow: hour,
+      hourlyVisualizations: 0,
+      notes: 0,
+      lastVisualization: 0,
+      images: new Set(),
+    };
+    usage.set(clientId, entry);
+  }
+
+  if (entry.hourWindow !== hour) {
+    entry.hourWindow = hour;
+    entry.hourlyVisualizations = 0;
+    entry.notes = 0;
+  }
+  return entry;
+}
+
+/**
+ * Throw a 429 when the client may not start another visualization
+ */
+function assertVisualizationAllowed(clientId: string): void {
+  const entry = getUsage(clientId);
+  const cooldownUntil = entry.lastVisualization + LIMITS.MIN_COOLDOWN_SECONDS * 1000;
+
+  if (cooldownUntil > Date.now()) {
+    const wait = secondsUntil(cooldownUntil);
+    throw new ApiError(429, `Please wait ${wait} second${wait !== 1 ? 's' : ''} before your next request.`, { retryAfterSeconds: wait, code: 'rate_limited' });
+  }
+  if (entry.visualizations >= LIMITS.DAILY_VISUALIZATIONS) {
+    const tomorrow = new Date(`${entry.day}T00:00:00Z`).getTime() + 24 * 60 * 60 * 1000;
+    throw new ApiError(
+      429,
+      `Daily limit reached (${LIMITS.DAILY_VISUALIZATIONS}/${LIMITS.DAILY_VISUALIZATIONS}). Please try again tomorrow.`,
+      { retryAfterSeconds: secondsUntil(tomorrow), code: 'rate_limited' }
+    );
+  }
+  if (entry.hourlyVisualizations >= LIMITS.HOURLY_VISUALIZATIONS) {
+    const wait = secondsUntil(entry.hourWindow + 60 * 60 * 1000);
+    const minutes = Math.ceil(wait / 60);
+    throw new ApiError(
+      429,
+      `Hourly limit reached (${LIMITS.HOURLY_VISUALIZATIONS}/${LIMITS.HOURLY_VISUALIZATIONS}). Try again in ${minutes} minute${minutes !== 1 ? 's' : ''}.`,
+      { retryAfterSeconds: wait, code: 'rate_limited' }
+    );
+  }
+}
+
+/**
+ * Count a visualization against the client's limits
+ */
+function recordVisualization(clientId: string): void {
+  const entry = getUsage(clientId);
+  entry.visualizations += 1;
+  entry.hourlyVisualizations += 1;
+  entry.lastVisualization = Date.now();
+}
+
+/**
+ * Take a visualization slot before the model call (429 when none is free), so parallel requests
+ * can't all pass the checks. Call the returned release when the render failed before any model call was billed
+ */
+export function reserveVisualization(clientId: string): () => void {
+  assertVisualizationAllowed(clientId);
+  const reserved = getUsage(clientId);
+  const { day, hourWindow, lastVisualization: previous } = reserved;
+  recordVisualization(clientId);
+  const reservedAt = reserved.lastVisualization;
+
+  let released = false;
+  return () => {
+    if (released) return;
+    released = true;
+    const entry = getUsage(clientId);
+    if (entry.day === day) entry.visualizations = Math.max(0, entry.visualizations - 1);
+    if (entry.hourWindow === hourWindow) entry.hourlyVisualizations = Math.max(0, entry.hourlyVisualizations - 1);
+    if (entry.lastVisualization === reservedAt) entry.lastVisualization = previous; // No later render started
+  };
+}
+
+/**
+ * Allow re-analysis of an image already seen today; cap new images per day
+ */
+export function recordImageAnalysis(clientId: string, imageHash: string): void {
+  const entry = getUsage(clientId);
+  if (entry.images.has(imageHash)) return;
+
+  if (entry.images.size >= LIMITS.MAX_UNIQUE_IMAGES_PER_DAY) {
+    throw new ApiError(
+      429,
+      `You've uploaded ${LIMITS.MAX_UNIQUE_IMAGES_PER_DAY} unique images today. Try different colors on your existing images.`,
+      { code: 'rate_limited' }
+    );
+  }
+  entry.images.add(imageHash);
+}
+
+/**
+ * Cap installation-notes requests per hour
+ */
+export function recordNotesRequest(clientId: string): void {
+  const entry = getUsage(clientId);
+  if (entry.notes >= NOTES_PER_HOUR) {
+    throw new ApiError(429, 'Too many shopping list requests. Please try again later.', {
+      retryAfterSeconds: secondsUntil(entry.hourWindow + 60 * 60 * 1000),
+      code: 'rate_limited',
+    });
+  }
+  entry.notes += 1;
+}
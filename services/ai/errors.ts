@@ -0,0 +1,56 @@
+/**
+ * AI Errors - Typed failures from AI providers, so the UI can show a specific message
+ * and the retry policy can tell transient failures from permanent ones
+ */
+
+import { isAbortError } from '../../lib/abort';
+
+export type AIErrorKind =
+  | 'quota' // Model quota; retryAfterSeconds says when to try again
+  | 'rate_limited' // Our server's per-client limit (server/rateLimit.ts) - only a cooldown with retryAfterSeconds is worth retrying
+  | 'safety' // Blocked by safety filters - retrying the same request won't help
+  | 'server' // Transient 5xx from the API route or the model
+  | 'network' // Request never got a response (offline, DNS, dropped connection)
+  | 'invalid_response' // Model output failed validation, even after a repair attempt
+  | 'aborted' // Cancelled by the caller's AbortSignal
+  | 'request_failed'; // Anything else (bad request, unchanged image, ...)
+
+export class AIError extends Error {
+  kind: AIErrorKind;
+  status?: number; // HTTP status from the API route, when there was one
+  retryAfterSeconds?: number;
+
+  constructor(kind: AIErrorKind, message: string, options: { status?: number; retryAfterSeconds?: number } = {}) {
+    super(message);
+    this.name = 'AIError';
+    this.kind = kind;
+    this.status = options.status;
+    this.retryAfterSeconds = options.retryAfterSeconds;
+  }
+}
+
+/**
+ * Error kind for an API route response (see ApiErrorCode in server/http.ts)
+ */
+export const kindFromResponse = (status: number, code?: string): AIErrorKind => {
+  if (code === 'invalid_response') return 'invalid_response';
+  if (code === 'safety') return 'safety';
+  if (code === 'rate_limited') return 'rate_limited';
+  if (code === 'quota' || status === 429) return 'quota';
+  if (status >= 500) return 'server';
+  return 'request_failed';
+};
+
+/**
+ * Normalize anything thrown by a provider into an AIError
+ */
+export const classifyError = (error: unknown): AIError => {
+  if (error instanceof AIError) return error;
+  if (isAbortError(error)) return new AIError('aborted', 'Request cancelled');
+  // fetch() rejects with a TypeError when there is no response at all
+  if (error instanceof TypeError) {
+    return new AIError('network', 'Could not reach the server. Check your connection and try again.');
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  return new AIError('request_failed', message || 'Something went wrong. Please try again.');
+};
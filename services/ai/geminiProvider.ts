@@ -0,0 +1,103 @@
+/**
+ * Gemini Provider - Calls the server API routes in api/
+ * The API key, model names and rate enforcement stay on the server (see server/gemini.ts)
+ */
+
+import { formatProductForPrompt } from '../../data/paintProducts';
+import { getSchemeColors } from '../colorScheme';
+import { AIProvider, AnalysisWithCache } from './types';
+import { AIError, kindFromResponse } from './errors';
+import { recordUsage } from '../usageLedger';
+import { getPromptVariant } from '../promptExperiment';
+import { getConfidentSpaceType } from '../spaceType';
+
+/**
+ * Analysis fields the visualization routes reuse (and the context cache name)
+ */
+const toContext = (analysis?: AnalysisWithCache) => analysis && {
+  surfaceType: analysis.surfaceType,
+  condition: analysis.condition,
+  description: analysis.description,
+  spaceType: getConfidentSpaceType(analysis),
+  cacheName: analysis.cacheName,
+};
+
+/**
+ * POST JSON to an API route; non-2xx responses throw an AIError with the server's message and code
+ * Every request carries the session's prompt variant (see promptExperiment.ts)
+ * Token usage the server reports (on success or a billed failure) goes to the usage ledger
+ */
+const postJson = async <T>(route: string, body: Record<string, unknown>, signal?: AbortSignal): Promise<T> => {
+  const response = await fetch(`/api/${route}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ ...body, promptVariant: getPromptVariant() }),
+    signal,
+  });
+
+  let data: any = null;
+  try {
+    data = await response.json();
+  } catch {
+    // Non-JSON body (e.g. proxy error page) - handled below
+  }
+
+  if (data && typeof data === 'object' && 'usage' in data) {
+    const { usage, ...rest } = data;
+    void recordUsage(usage);
+    data = rest;
+  }
+
+  if (!response.ok) {
+    throw new AIError(
+      kindFromResponse(response.status, data?.code),
+      data?.error || `Request failed (${response.status}). Please try again.`,
+      { status: response.status, retryAfterSeconds: data?.retryAfterSeconds }
+    );
+  }
+  if (data === null) throw new AIError('server', 'Unexpected response from server.', { status: response.status });
+  return data as T;
+};
+
+export const geminiProvider: AIProvider = {
+  name: 'gemini',
+  metered: true,
+
+  analyzeImage: (base64Image, fullSizeImage, signal) =>
+    postJson<AnalysisWithCache>('analyze', { image: base64Image, fullSizeImage }, signal),
+
+  visualizeColor: async (base64Image, colorName, colorHex, analysis, surface, signal) => {
+    const { image } = await postJson<{ image: string }>('visualize', {
+      image: base64Image,
+      colorName,
+      colorHex,
+      context: toContext(analysis),
+      surface: surface && { name: surface.name, material: surface.material, condition: surface.condition },
+    }, signal);
+    return image;
+  },
+
+  visualizeScheme: async (base64Image, scheme, analysis, signal) => {
+    const { image } = await postJson<{ image: string }>('visualize-scheme', {
+      image: base64Image,
+      scheme: getSchemeColors(scheme).map(({ role, color }) => ({ role, colorName: color.name, colorHex: color.hex })),
+      context: toContext(analysis),
+    }, signal);
+    return image;
+  },
+
+  generateShoppingNotes: async ({ surfaceType, condition, colorLabel, list, paint }, signal) => {
+    const { installationNotes } = await postJson<{ installationNotes?: string }>('shopping-list', {
+      surfaceType,
+      condition,
+      colorLabel,
+      product: paint ? formatProductForPrompt(paint) : undefined,
+      materials: list.items.map(item => `${item.quantity} ${item.unit} ${item.name}`),
+    }, signal);
+    return installationNotes;
+  },
+
+  releaseContextCache: async (cacheName) => {
+    await postJson('release-cache', { cacheName });
+  },
+};
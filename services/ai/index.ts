@@ -0,0 +1,35 @@
+/**
+ * Active AI provider, chosen at build time
+ * Set VITE_AI_PROVIDER=mock to run the whole flow offline with the mock provider
+ */
+
+import { AIProvider } from './types';
+import { geminiProvider } from './geminiProvider';
+import { mockProvider } from './mockProvider';
+
+const PROVIDERS: Record<string, AIProvider> = {
+  gemini: geminiProvider,
+  mock: mockProvider,
+};
+
+const configured = (import.meta.env.VITE_AI_PROVIDER || 'gemini').toLowerCase();
+
+if (!PROVIDERS[configured]) {
+  console.warn(`Unknown VITE_AI_PROVIDER "${configured}", using gemini.`);
+}
+
+const activeProvider: AIProvider = PROVIDERS[configured] || geminiProvider;
+
+export const getAIProvider = (): AIProvider => activeProvider;
+
+/**
+ * Namespace cache keys for non-default providers so mock results never show up in Gemini mode
+ */
+export const providerCacheKey = (key: string): string =>
+  activeProvider.name === 'gemini' ? key : `${activeProvider.name}_${key}`;
+
+export type { AIProvider, AIProviderName, AnalysisWithCache, ShoppingNotesRequest } from './types';
+export { AIError, classifyError } from './errors';
+export type { AIErrorKind } from './errors';
+export { withRetry, formatRetryMessage } from './retry';
+export type { RetryAttempt, RetryOptions } from './retry';
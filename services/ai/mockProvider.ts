@@ -0,0 +1,145 @@
+/**
+ * Mock Provider - Deterministic offline stand-in for the AI operations
+ * Canned analyses picked by image content, canvas recoloring and template notes,
+ * so upload → visualize → shopping works without network or an API key
+ */
+
+import { Palette } from '../../types';
+import { PaintColor, PAINT_COLORS } from '../../data/paintColors';
+import { detectWallMask, imageDataToDataUrl, loadImageData, recolorWithMask, toLabPixels } from '../localRecolor';
+import { abortableDelay, throwIfAborted } from '../../lib/abort';
+import { AIProvider, AnalysisWithCache } from './types';
+
+const MOCK_LATENCY_MS = 600; // Long enough to see loading states
+
+const CANNED_ANALYSES: Omit<AnalysisWithCache, 'palettes'>[] = [
+  {
+    surfaceType: 'Concrete',
+    condition: 'Peeling',
+    spaceType: 'exterior',
+    spaceTypeConfidence: 0.95,
+    description: 'Front and side exterior walls with two columns and a parapet. Requires scraping and primer for peeling areas.',
+    estimatedAreaWarning: 'Measure each wall, including the parapet, for an accurate estimate.',
+    surfaces: [
+      { id: 'main-body', name: 'Main body', material: 'Concrete', condition: 'Peeling' },
+      { id: 'columns', name: 'Columns', material: 'Concrete', condition: 'Good' },
+      { id: 'window-trim', name: 'Window trim', material: 'Plaster', condition: 'Peeling' },
+      { id: 'fence-wall', name: 'Fence wall', material: 'Concrete', condition: 'Good' },
+      { id: 'gate', name: 'Gate', material: 'Metal', condition: 'Rusty' },
+    ],
+    defects: [
+      { type: 'peeling', severity: 'moderate', box: { x: 0.12, y: 0.3, width: 0.28, height: 0.22 }, note: 'Flaking paint beside the front window' },
+      { type: 'crack', severity: 'minor', box: { x: 0.55, y: 0.45, width: 0.08, height: 0.25 }, note: 'Hairline crack below the parapet' },
+      { type: 'chalking', severity: 'minor', box: { x: 0.68, y: 0.2, width: 0.22, height: 0.3 } },
+    ],
+  },
+  {
+    surfaceType: 'Plaster',
+    condition: 'Good',
+    spaceType: 'interior',
+    spaceTypeConfidence: 0.9,
+    description: 'Interior living room walls with a window and a doorway. No treatment needed beyond light sanding.',
+    estimatedAreaWarning: 'Measure wall lengths and ceiling height; doors and windows are deducted automatically.',
+    surfaces: [
+      { id: 'walls', name: 'Walls', material: 'Plaster', condition: 'Good' },
+      { id: 'door-frame', name: 'Door frame', material: 'Wood', condition: 'Good' },
+    ],
+    defects: [],
+  },
+  {
+    surfaceType: 'Concrete',
+    condition: 'Moldy',
+    spaceType: 'exterior',
+    spaceTypeConfidence: 0.85,
+    description: 'Shaded exterior wall with mold near the base. Treat with fungicidal wash before priming.',
+    estimatedAreaWarning: 'Measure the affected walls; mold-treated areas need primer.',
+    surfaces: [
+      { id: 'main-body', name: 'Main body', material: 'Concrete', condition: 'Moldy' },
+      { id: 'fence-wall', name: 'Fence wall', material: 'Concrete', condition: 'Moldy' },
+    ],
+    defects: [
+      { type: 'mould', severity: 'severe', box: { x: 0.05, y: 0.65, width: 0.6, height: 0.3 }, note: 'Black mould along the base of the wall' },
+      { type: 'damp', severity: 'moderate', box: { x: 0.4, y: 0.55, width: 0.25, height: 0.2 } },
+      { type: 'efflorescence', severity: 'minor', box: { x: 0.72, y: 0.7, width: 0.15, height: 0.12 }, note: 'White salt bloom near the downpipe' },
+    ],
+  },
+];
+
+/**
+ * Stable seed from image data (sampled - images are large)
+ */
+const seedFromString = (value: string): number => {
+  let hash = 0;
+  const step = Math.max(1, Math.floor(value.length / 2000));
+  for (let i = 0; i < value.length; i += step) {
+    hash = ((hash << 5) - hash + value.charCodeAt(i)) | 0;
+  }
+  return Math.abs(hash);
+};
+
+/**
+ * `count` catalog colors starting at a seeded offset, wrapping around
+ */
+const pickColors = (colors: PaintColor[], seed: number, count: number) =>
+  Array.from({ length: Math.min(count, colors.length) }, (_, i) => {
+    const color = colors[(seed + i) % colors.length];
+    return { name: color.name, hex: color.hex, manufacturer: color.manufacturer };
+  });
+
+const buildPalettes = (seed: number): Palette[] => {
+  const neuce = PAINT_COLORS.neuce || [];
+  const azar = PAINT_COLORS.azar || [];
+  const curated = [...pickColors(neuce, seed + 3, 2), ...pickColors(azar, seed + 5, 2)];
+
+  return [
+    { name: 'AI-CURATED SUGGESTION', description: 'Offline demo picks from Neuce and Azar.', colors: curated },
+    { name: 'NEUCE PAINTS', description: 'Neuce colors for this space (demo).', colors: pickColors(neuce, seed, 5) },
+    { name: 'AZAR PAINTS', description: 'Azar colors for this space (demo).', colors: pickColors(azar, seed, 5) },
+  ];
+};
+
+/**
+ * Repaint light, low-saturation pixels (typical painted walls) in the target color
+ */
+const recolorOnCanvas = async (base64Image: string, colorHex: string): Promise<string> => {
+  const src = base64Image.startsWith('data:') ? base64Image : `data:image/jpeg;base64,${base64Image}`;
+  const imageData = await loadImageData(src);
+  const lab = toLabPixels(imageData);
+  return imageDataToDataUrl(recolorWithMask(imageData, detectWallMask(imageData, lab), colorHex, lab));
+};
+
+export const mockProvider: AIProvider = {
+  name: 'mock',
+  metered: false,
+
+  analyzeImage: async (base64Image, _fullSizeImage, signal) => {
+    await abortableDelay(MOCK_LATENCY_MS, signal);
+    const seed = seedFromString(base64Image);
+    return { ...CANNED_ANALYSES[seed % CANNED_ANALYSES.length], palettes: buildPalettes(seed) };
+  },
+
+  // No segmentation offline: a target surface still repaints every wall-like pixel
+  visualizeColor: async (base64Image, _colorName, colorHex, _analysis, _surface, signal) => {
+    await abortableDelay(MOCK_LATENCY_MS, signal);
+    const image = await recolorOnCanvas(base64Image, colorHex);
+    throwIfAborted(signal);
+    return image;
+  },
+
+  // Without segmentation only the body color can be shown offline
+  visualizeScheme: async (base64Image, scheme, _analysis, signal) => {
+    await abortableDelay(MOCK_LATENCY_MS, signal);
+    const image = await recolorOnCanvas(base64Image, scheme.body.hex);
+    throwIfAborted(signal);
+    return image;
+  },
+
+  generateShoppingNotes: async ({ surfaceType, condition, colorLabel, paint }, signal) => {
+    await abortableDelay(MOCK_LATENCY_MS / 2, signal);
+    const prep = condition.toLowerCase() === 'good'
+      ? 'Wipe down and lightly sand the walls.'
+      : `Scrape and clean the ${condition.toLowerCase()} areas, then let the ${surfaceType.toLowerCase()} dry fully before priming.`;
+    return `${prep} Apply ${paint ? paint.name : 'the paint'} in ${colorLabel} with a roller, cutting in edges with a brush. ` +
+      'Avoid painting in direct midday sun or when rain is expected. (Offline demo notes)';
+  },
+};
@@ -0,0 +1,83 @@
+/**
+ * Retry - One retry policy for every AI call
+ * Transient failures (quota, 5xx, network) back off exponentially with jitter and honor the
+ * model's retryDelay; permanent ones (safety, invalid response, bad request, a per-client cap
+ * without a retry time) fail immediately
+ */
+
+import { abortableDelay, throwIfAborted } from '../../lib/abort';
+import { AIError, AIErrorKind, classifyError } from './errors';
+
+export interface RetryAttempt {
+  attempt: number; // The attempt about to start (2 = first retry)
+  maxAttempts: number;
+  delayMs: number; // Wait before this attempt
+  error: AIError; // Why the previous attempt failed
+}
+
+export interface RetryOptions {
+  maxAttempts?: number; // Including the first try
+  baseDelayMs?: number;
+  maxDelayMs?: number; // Longer retryDelay hints are not worth waiting for - fail instead
+  onRetry?: (attempt: RetryAttempt) => void;
+  signal?: AbortSignal; // Aborting stops the current attempt and any pending backoff
+}
+
+const DEFAULTS = {
+  maxAttempts: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 20000,
+};
+
+const RETRYABLE: AIErrorKind[] = ['quota', 'server', 'network'];
+
+// Server limits: a cooldown says when to retry (long waits fail on maxDelayMs); a cap without one won't lift
+export const isRetryable = (error: AIError): boolean =>
+  RETRYABLE.includes(error.kind) || (error.kind === 'rate_limited' && error.retryAfterSeconds !== undefined);
+
+/**
+ * Delay before the given retry: the server's retryAfterSeconds when it sent one,
+ * otherwise full-jitter exponential backoff (base * 2^(retry-1), randomized down)
+ */
+export const getRetryDelay = (error: AIError, retry: number, baseDelayMs: number): number => {
+  if (error.retryAfterSeconds !== undefined && error.retryAfterSeconds > 0) {
+    // Small jitter so clients that hit the same quota don't retry in lockstep
+    return error.retryAfterSeconds * 1000 + Math.random() * baseDelayMs / 2;
+  }
+  const ceiling = baseDelayMs * 2 ** (retry - 1);
+  return ceiling / 2 + Math.random() * ceiling / 2;
+};
+
+/**
+ * Run an AI operation with retries; always rejects with an AIError
+ */
+export const withRetry = async <T>(operation: () => Promise<T>, options: RetryOptions = {}): Promise<T> => {
+  const { maxAttempts, baseDelayMs, maxDelayMs, signal } = { ...DEFAULTS, ...options };
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      throwIfAborted(signal);
+      return await operation();
+    } catch (rawError) {
+      const error = classifyError(rawError);
+      if (attempt >= maxAttempts || !isRetryable(error)) throw error;
+
+      const delayMs = Math.round(getRetryDelay(error, attempt, baseDelayMs));
+      if (delayMs > maxDelayMs) throw error;
+
+      console.warn(`AI call failed (${error.kind}), retrying in ${delayMs}ms:`, error.message);
+      options.onRetry?.({ attempt: attempt + 1, maxAttempts, delayMs, error });
+      try {
+        await abortableDelay(delayMs, signal);
+      } catch (abortError) {
+        throw classifyError(abortError);
+      }
+    }
+  }
+};
+
+/**
+ * Loading-UI label for a retry, e.g. "Retrying (2/3)…"
+ */
+export const formatRetryMessage = ({ attempt, maxAttempts }: Pick<RetryAttempt, 'attempt' | 'maxAttempts'>): string =>
+  `Retrying (${attempt}/${maxAttempts})…`;
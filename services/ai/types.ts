@@ -0,0 +1,43 @@
+/**
+ * AI Provider - The three model-backed operations the app depends on
+ * Implementations: Gemini via the server API routes, and an offline mock for development and QA
+ */
+
+import { AnalysisResult, ColorScheme, ShoppingList, Surface } from '../../types';
+import { PaintProduct } from '../../data/paintProducts';
+
+export type AIProviderName = 'gemini' | 'mock';
+
+// cacheExpiresAt: when the remote context cache behind cacheName expires (timestamp)
+export type AnalysisWithCache = AnalysisResult & { cacheName?: string; cacheExpiresAt?: number };
+
+export interface ShoppingNotesRequest {
+  surfaceType: string;
+  condition: string;
+  colorLabel: string; // e.g. "Terracotta (Neuce NC-002)"
+  list: ShoppingList; // Calculated list - providers must not change quantities or prices
+  paint?: PaintProduct;
+}
+
+export interface AIProvider {
+  readonly name: AIProviderName;
+  readonly metered: boolean; // Calls cost money, so the client-side usage limits apply
+  // Every operation takes an optional AbortSignal; aborting rejects with an AbortError and stops network work
+  /** Surface, condition and raw palette suggestions (not yet snapped to the catalog) */
+  analyzeImage(base64Image: string, fullSizeImage?: string, signal?: AbortSignal): Promise<AnalysisWithCache>;
+  /** Photo repainted in the color, as a data URL; with a surface, only that surface is repainted */
+  visualizeColor(
+    base64Image: string,
+    colorName: string,
+    colorHex: string,
+    analysis?: AnalysisWithCache,
+    surface?: Surface,
+    signal?: AbortSignal
+  ): Promise<string>;
+  /** Photo repainted in a body/trim/accent scheme, as one combined render */
+  visualizeScheme(base64Image: string, scheme: ColorScheme, analysis?: AnalysisWithCache, signal?: AbortSignal): Promise<string>;
+  /** Installation notes for the list; undefined keeps the calculated notes */
+  generateShoppingNotes(request: ShoppingNotesRequest, signal?: AbortSignal): Promise<string | undefined>;
+  /** Delete a context cache returned by analyzeImage (providers without caches leave this out) */
+  releaseContextCache?(cacheName: string): Promise<void>;
+}
@@ -0,0 +1,345 @@
+/**
+ * Validation - Runtime checks for model JSON before it reaches the UI
+ * Normalizes what can be fixed (hex format, enums, numbers, totals) and reports what can't
+ * Pure module: used by the server routes and the browser alike
+ */
+
+import type { AnalysisResult, BoundingBox, Defect, DefectType, Palette, PaletteColor, ShoppingItem, ShoppingList, Surface } from '../../types';
+// .js extension: also loaded by the serverless routes as a native ES module
+import { KNOWN_MANUFACTURERS } from '../../data/catalogLoader.js';
+import { SPACE_TYPES } from '../spaceType.js';
+import { DEFECT_SEVERITIES, DEFECT_TYPES } from '../defectPrep.js';
+
+export interface ValidationResult<T> {
+  ok: boolean;
+  value?: T; // Normalized value when ok
+  errors: string[]; // Why the value is unusable (empty when ok)
+  repairs: string[]; // Normalizations applied, for logging
+}
+
+const invalid = <T>(errors: string[], repairs: string[] = []): ValidationResult<T> => ({ ok: false, errors, repairs });
+
+const SHOPPING_CATEGORIES: ShoppingItem['category'][] = ['Paint', 'Primer', 'Hardware', 'Preparation', 'Other'];
+const DEFAULT_SPACE_TYPE_CONFIDENCE = 0.5; // Type given without a confidence
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const asText = (value: unknown): string => (typeof value === 'string' ? value.trim() : '');
+
+/**
+ * "#abc", "ABC123", " #abc123 " → "#AABBCC" / "#ABC123"; null when not a hex color
+ */
+export const normalizeHex = (value: unknown): string | null => {
+  const raw = asText(value).replace(/^#/, '');
+  if (/^[0-9A-Fa-f]{3}$/.test(raw)) {
+    return `#${raw.split('').map(c => c + c).join('')}`.toUpperCase();
+  }
+  return /^[0-9A-Fa-f]{6}$/.test(raw) ? `#${raw.toUpperCase()}` : null;
+};
+
+/**
+ * Finite number; accepts numeric strings like "2" or "₵45.50"
+ */
+const toAmount = (value: unknown): number | null => {
+  const parsed = typeof value === 'number'
+    ? value
+    : typeof value === 'string' ? Number(value.replace(/[₵,\s]|GHS/gi, '')) : NaN;
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+const roundMoney = (value: number) => Math.round(value * 100) / 100;
+
+const MAX_SURFACES = 8;
+export const MAX_SURFACE_TEXT = 60; // Name, material and condition - the longest a render request accepts
+
+const clampText = (value: string, label: string, repairs: string[]): string => {
+  if (value.length <= MAX_SURFACE_TEXT) return value;
+  repairs.push(`shortened ${label} "${value}"`);
+  return value.slice(0, MAX_SURFACE_TEXT).trim();
+};
+
+/**
+ * "Exterior" → exterior with its confidence clamped to 0-1 (percentages are scaled down)
+ * An unknown type drops the confidence too
+ */
+const normalizeSpaceType = (
+  raw: Record<string, any>,
+  repairs: string[]
+): Pick<AnalysisResult, 'spaceType' | 'spaceTypeConfidence'> => {
+  const spaceType = SPACE_TYPES.find(type => type === asText(raw.spaceType).toLowerCase());
+  if (!spaceType) {
+    if (raw.spaceType !== undefined) repairs.push(`dropped unknown spaceType "${raw.spaceType}"`);
+    return { spaceType: undefined, spaceTypeConfidence: undefined }; // Overrides the raw values
+  }
+
+  let confidence = toAmount(raw.spaceTypeConfidence);
+  if (confidence === null) {
+    repairs.push(`missing spaceTypeConfidence → ${DEFAULT_SPACE_TYPE_CONFIDENCE}`);
+    confidence = DEFAULT_SPACE_TYPE_CONFIDENCE;
+  } else if (confidence > 1) {
+    confidence = confidence / 100;
+  }
+  return { spaceType, spaceTypeConfidence: Math.min(1, Math.max(0, confidence)) };
+};
+
+const MAX_DEFECTS = 12;
+const MIN_BOX_SIZE = 0.005; // Narrower or shorter than this (0-1 of the photo) is not a usable location
+
+// Everyday names the model uses instead of the defect types
+const DEFECT_ALIASES: Record<string, DefectType> = {
+  cracks: 'crack',
+  cracking: 'crack',
+  peel: 'peeling',
+  flaking: 'peeling',
+  mold: 'mould',
+  mildew: 'mould',
+  algae: 'mould',
+  dampness: 'damp',
+  'damp patch': 'damp',
+  moisture: 'damp',
+  chalky: 'chalking',
+  powdering: 'chalking',
+  salts: 'efflorescence',
+};
+
+const toDefectType = (value: unknown): DefectType | undefined => {
+  const text = asText(value).toLowerCase();
+  return DEFECT_TYPES.find(type => type === text) || DEFECT_ALIASES[text];
+};
+
+/**
+ * box_2d [ymin, xmin, ymax, xmax] on a 0-1000 scale → 0-1 box from the top left
+ * Accepts 0-1 values too; corners are clamped and put in order, slivers are dropped
+ */
+const toBoundingBox = (raw: unknown): BoundingBox | undefined => {
+  if (!Array.isArray(raw) || raw.length !== 4) return undefined;
+  const values = raw.map(toAmount);
+  if (values.some(v => v === null)) return undefined;
+  const scale = values.some(v => v! > 1) ? 1000 : 1;
+  const [y1, x1, y2, x2] = values.map(v => Math.min(1, Math.max(0, v! / scale)));
+  const box = { x: Math.min(x1, x2), y: Math.min(y1, y2), width: Math.abs(x2 - x1), height: Math.abs(y2 - y1) };
+  return box.width >= MIN_BOX_SIZE && box.height >= MIN_BOX_SIZE ? box : undefined;
+};
+
+/**
+ * Defects with a known type, a severity (default moderate) and a box when the location is usable
+ */
+const normalizeDefects = (raw: unknown, repairs: string[]): Defect[] => {
+  const defects: Defect[] = [];
+
+  (Array.isArray(raw) ? raw : []).forEach((rawDefect: unknown, d: number) => {
+    const type = isObject(rawDefect) ? toDefectType(rawDefect.type) : undefined;
+    if (!isObject(rawDefect) || !type) {
+      repairs.push(`dropped defect ${d + 1}: unknown type`);
+      return;
+    }
+    if (defects.length >= MAX_DEFECTS) {
+      repairs.push(`dropped defect ${d + 1}: more than ${MAX_DEFECTS} defects`);
+      return;
+    }
+
+    let severity = DEFECT_SEVERITIES.find(level => level === asText(rawDefect.severity).toLowerCase());
+    if (!severity) {
+      repairs.push(`defect ${d + 1}: severity "${rawDefect.severity ?? ''}" → moderate`);
+      severity = 'moderate';
+    }
+    const box = toBoundingBox(rawDefect.box_2d ?? rawDefect.box);
+    if (!box && (rawDefect.box_2d ?? rawDefect.box) !== undefined) repairs.push(`defect ${d + 1}: dropped unusable box`);
+    const note = asText(rawDefect.note);
+
+    defects.push({ type, severity, ...(box ? { box } : {}), ...(note ? { note } : {}) });
+  });
+
+  return defects;
+};
+
+const slugify = (value: string) => value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'surface';
+
+/**
+ * Named surfaces with unique ids; material and condition default to the main body's.
+ * A photo always has at least one surface, so a missing list becomes a single "Walls" entry
+ */
+const normalizeSurfaces = (raw: unknown, surfaceType: string, condition: string, repairs: string[]): Surface[] => {
+  const surfaces: Surface[] = [];
+  const ids = new Set<string>();
+
+  (Array.isArray(raw) ? raw : []).forEach((rawSurface: unknown, s: number) => {
+    const name = isObject(rawSurface) ? clampText(asText(rawSurface.name), 'surface name', repairs) : '';
+    if (!isObject(rawSurface) || !name) {
+      repairs.push(`dropped surface ${s + 1}: missing name`);
+      return;
+    }
+    if (surfaces.length >= MAX_SURFACES) {
+      repairs.push(`dropped surface "${name}": more than ${MAX_SURFACES} surfaces`);
+      return;
+    }
+
+    const base = slugify(name);
+    let id = base;
+    for (let n = 2; ids.has(id); n++) id = `${base}-${n}`;
+    ids.add(id);
+
+    surfaces.push({
+      id,
+      name,
+      material: clampText(asText(rawSurface.material) || surfaceType, 'surface material', repairs),
+      condition: clampText(asText(rawSurface.condition) || condition, 'surface condition', repairs),
+    });
+  });
+
+  if (surfaces.length === 0) {
+    repairs.push('no surfaces listed → single "Walls" surface');
+    surfaces.push({
+      id: 'walls',
+      name: 'Walls',
+      material: clampText(surfaceType, 'surface material', repairs),
+      condition: clampText(condition, 'surface condition', repairs),
+    });
+  }
+  return surfaces;
+};
+
+/**
+ * Validate and normalize an analysis response
+ */
+export const validateAnalysisResult = (raw: unknown): ValidationResult<AnalysisResult> => {
+  const errors: string[] = [];
+  const repairs: string[] = [];
+
+  if (!isObject(raw)) return invalid(['response is not a JSON object']);
+
+  const surfaceType = asText(raw.surfaceType);
+  const condition = asText(raw.condition);
+  if (!surfaceType) errors.push('missing "surfaceType"');
+  if (!condition) errors.push('missing "condition"');
+
+  if (!Array.isArray(raw.palettes)) {
+    errors.push('"palettes" must be an array');
+  }
+
+  const palettes: Palette[] = [];
+  (Array.isArray(raw.palettes) ? raw.palettes : []).forEach((rawPalette: unknown, p: number) => {
+    if (!isObject(rawPalette) || !Array.isArray(rawPalette.colors)) {
+      repairs.push(`dropped palette ${p + 1}: no colors array`);
+      return;
+    }
+
+    const colors: PaletteColor[] = [];
+    rawPalette.colors.forEach((rawColor: unknown, c: number) => {
+      const hex = isObject(rawColor) ? normalizeHex(rawColor.hex) : null;
+      if (!isObject(rawColor) || !hex) {
+        repairs.push(`dropped color ${c + 1} in palette ${p + 1}: invalid hex`);
+        return;
+      }
+      if (hex !== rawColor.hex) repairs.push(`normalized hex "${rawColor.hex}" → ${hex}`);
+      const manufacturer = KNOWN_MANUFACTURERS.find(m => m === rawColor.manufacturer);
+      colors.push({ name: asText(rawColor.name) || hex, hex, ...(manufacturer ? { manufacturer } : {}) });
+    });
+
+    if (colors.length === 0) {
+      repairs.push(`dropped palette ${p + 1}: no valid colors`);
+      return;
+    }
+    palettes.push({
+      name: asText(rawPalette.name) || `Palette ${p + 1}`,
+      description: asText(rawPalette.description),
+      colors,
+    });
+  });
+
+  if (Array.isArray(raw.palettes) && palettes.length === 0) {
+    errors.push('no palette has a valid color');
+  }
+
+  if (errors.length > 0) return invalid(errors, repairs);
+  return {
+    ok: true,
+    errors,
+    repairs,
+    value: {
+      ...raw,
+      surfaceType,
+      condition,
+      description: asText(raw.description),
+      estimatedAreaWarning: asText(raw.estimatedAreaWarning),
+      palettes,
+      surfaces: normalizeSurfaces(raw.surfaces, surfaceType, condition, repairs),
+      ...normalizeSpaceType(raw, repairs),
+      defects: normalizeDefects(raw.defects, repairs),
+    } as AnalysisResult,
+  };
+};
+
+/**
+ * Validate and normalize a shopping list; the material total is recomputed from the items
+ */
+export const validateShoppingList = (raw: unknown): ValidationResult<ShoppingList> => {
+  const repairs: string[] = [];
+
+  if (!isObject(raw)) return invalid(['response is not a JSON object']);
+  if (!Array.isArray(raw.items)) return invalid(['"items" must be an array']);
+
+  const items: ShoppingItem[] = [];
+  raw.items.forEach((rawItem: unknown, i: number) => {
+    const name = isObject(rawItem) ? asText(rawItem.name) : '';
+    if (!isObject(rawItem) || !name) {
+      repairs.push(`dropped item ${i + 1}: missing name`);
+      return;
+    }
+
+    const category = SHOPPING_CATEGORIES.find(c => c.toLowerCase() === asText(rawItem.category).toLowerCase());
+    if (!category) repairs.push(`${name}: unknown category "${rawItem.category}" → Other`);
+
+    const quantity = toAmount(rawItem.quantity);
+    if (quantity === null) {
+      repairs.push(`dropped ${name}: invalid quantity "${rawItem.quantity}"`);
+      return;
+    }
+    if (quantity !== rawItem.quantity || quantity < 0) repairs.push(`${name}: quantity "${rawItem.quantity}" → ${Math.max(0, quantity)}`);
+
+    const price = toAmount(rawItem.estimatedPriceGHS);
+    if (price === null || price < 0 || price !== rawItem.estimatedPriceGHS) {
+      repairs.push(`${name}: price "${rawItem.estimatedPriceGHS}" → ${Math.max(0, price ?? 0)}`);
+    }
+
+    items.push({
+      ...rawItem,
+      name,
+      category: category || 'Other',
+      quantity: Math.max(0, quantity),
+      unit: asText(rawItem.unit) || 'unit',
+      estimatedPriceGHS: roundMoney(Math.max(0, price ?? 0)),
+      reason: asText(rawItem.reason),
+    } as ShoppingItem);
+  });
+
+  const total = roundMoney(items.reduce((sum, item) => sum + item.estimatedPriceGHS, 0));
+  if (toAmount(raw.totalMaterialCostGHS) !== total) {
+    repairs.push(`material total ${raw.totalMaterialCostGHS} → ${total} (sum of items)`);
+  }
+  const labor = toAmount(raw.estimatedLaborCostGHS);
+
+  return {
+    ok: true,
+    errors: [],
+    repairs,
+    value: {
+      ...raw,
+      items,
+      totalMaterialCostGHS: total,
+      estimatedLaborCostGHS: roundMoney(Math.max(0, labor ?? 0)),
+      installationNotes: asText(raw.installationNotes),
+    } as ShoppingList,
+  };
+};
+
+/**
+ * Installation notes response: { installationNotes: string }
+ */
+export const validateNotesResponse = (raw: unknown): ValidationResult<{ installationNotes: string }> => {
+  const installationNotes = isObject(raw) ? asText(raw.installationNotes) : '';
+  return installationNotes
+    ? { ok: true, value: { installationNotes }, errors: [], repairs: [] }
+    : invalid(['missing "installationNotes" text']);
+};
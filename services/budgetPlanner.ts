@@ -0,0 +1,156 @@
+/**
+ * Budget Planner - Fits a shopping list to a tier or a fixed cedi budget
+ * Tries the best plan first and steps down (product line, tools, coats, primer)
+ * until the materials fit, recording every compromise as a trade-off
+ */
+
+import { PaletteColor, ShoppingList, SpaceType } from '../types';
+import { ProductTier, PRODUCT_TIERS, TIER_LABELS, getProductForTier, getPrimerProduct } from '../data/paintProducts';
+import { calculateShoppingList, QuantityInput, RolePaintInput } from './quantityCalculator';
+import { applyPriceList } from './priceList';
+
+export interface BudgetOptions {
+  tier?: ProductTier; // Chosen tier; with a budget this is the starting (best) tier
+  budgetGHS?: number; // Materials budget in cedis
+  storeId?: string; // Store prices to cost against (defaults to cheapest available)
+}
+
+interface PlanStep {
+  tier: ProductTier;
+  toolTier: ProductTier;
+  coats?: number;
+  skipPrimer: boolean;
+  tradeOffs: string[]; // Besides the paint line, which depends on the product actually found (see getTradeOffs)
+}
+
+/**
+ * Scheme role before a product line is chosen - the planner picks one per tier
+ */
+export type PlanRole = Omit<RolePaintInput, 'paint'> & { color: PaletteColor };
+
+type PlanInput = Omit<QuantityInput, 'paint' | 'primer' | 'coats' | 'toolTier' | 'skipPrimer' | 'roles'> & {
+  roles?: PlanRole[];
+  spaceType?: SpaceType; // Weather shield outside, emulsion inside; unset = decided by each color's category
+};
+
+/**
+ * Calculated list for one step plus its cost at the chosen store, and the tier of the paint it priced
+ * (a color not sold in the step's tier gets the nearest one). The list stays unpriced so the store can still be switched
+ */
+const buildPlan = (
+  input: PlanInput,
+  color: PaletteColor,
+  step: PlanStep,
+  storeId?: string
+): { list: ShoppingList; costGHS: number; tier: ProductTier } => {
+  const { spaceType, ...quantities } = input;
+  const paint = getProductForTier(color, step.tier, spaceType);
+  const primer = paint ? getPrimerProduct(paint.manufacturer) : undefined;
+  const list = calculateShoppingList({
+    ...quantities,
+    roles: input.roles?.map(({ color: roleColor, ...role }) => ({ ...role, paint: getProductForTier(roleColor, step.tier, spaceType) })),
+    paint,
+    primer,
+    coats: step.coats,
+    toolTier: step.toolTier,
+    skipPrimer: step.skipPrimer,
+  });
+  return { list, costGHS: applyPriceList(list, storeId).totalMaterialCostGHS, tier: paint?.tier ?? step.tier };
+};
+
+/**
+ * A plan's compromises, starting with a cheaper paint line than asked for when that is what was priced
+ */
+const getTradeOffs = (step: PlanStep, tier: ProductTier, startTier: ProductTier): string[] => [
+  ...(PRODUCT_TIERS.indexOf(tier) < PRODUCT_TIERS.indexOf(startTier)
+    ? [`${TIER_LABELS[tier]} paint line instead of ${TIER_LABELS[startTier]} - shorter lifespan, may need repainting sooner`]
+    : []),
+  ...step.tradeOffs,
+];
+
+/**
+ * Ordered fallback steps from the requested tier down to the bare minimum
+ */
+const getPlanSteps = (startTier: ProductTier, needsPrimer: boolean): PlanStep[] => {
+  const steps: PlanStep[] = [];
+  const start = PRODUCT_TIERS.indexOf(startTier);
+
+  for (let i = start; i >= 0; i--) {
+    const tier = PRODUCT_TIERS[i];
+    steps.push({ tier, toolTier: tier, skipPrimer: false, tradeOffs: [] });
+  }
+
+  steps.push({
+    tier: 'economy',
+    toolTier: 'economy',
+    coats: 1,
+    skipPrimer: false,
+    tradeOffs: ['One coat only - expect patchy coverage, especially over a darker old color'],
+  });
+
+  if (needsPrimer) {
+    steps.push({
+      tier: 'economy',
+      toolTier: 'economy',
+      coats: 1,
+      skipPrimer: true,
+      tradeOffs: [
+        'One coat only - expect patchy coverage, especially over a darker old color',
+        'Skip primer - not recommended: paint may peel or soak in unevenly on this surface',
+      ],
+    });
+  }
+
+  return steps;
+};
+
+/**
+ * Build the shopping list for a tier, or the best plan that fits a budget
+ */
+export const planShoppingList = (
+  input: PlanInput,
+  color: PaletteColor,
+  options: BudgetOptions = {}
+): ShoppingList => {
+  const { budgetGHS, storeId } = options;
+  const tier = options.tier || (budgetGHS ? 'premium' : 'standard');
+
+  // No budget: straight tier plan
+  if (!budgetGHS || budgetGHS <= 0) {
+    const { list, tier: paintTier } = buildPlan(input, color, { tier, toolTier: tier, skipPrimer: false, tradeOffs: [] }, storeId);
+    return { ...list, budget: { tier: paintTier, withinBudget: true, tradeOffs: [] } };
+  }
+
+  const needsPrimer = !!calculateShoppingList({ ...input, roles: undefined }).calculation.needsPrimer;
+  const steps = getPlanSteps(tier, needsPrimer);
+
+  let cheapest: { list: ShoppingList; costGHS: number; step: PlanStep; tier: ProductTier } | null = null;
+  for (const step of steps) {
+    const { list, costGHS, tier: paintTier } = buildPlan(input, color, step, storeId);
+    if (costGHS <= budgetGHS) {
+      return {
+        ...list,
+        budget: { tier: paintTier, budgetGHS, withinBudget: true, tradeOffs: getTradeOffs(step, paintTier, tier) },
+      };
+    }
+    if (!cheapest || costGHS < cheapest.costGHS) {
+      cheapest = { list, costGHS, step, tier: paintTier };
+    }
+  }
+
+  // Nothing fits - show the cheapest plan and how far the money goes
+  const { list, costGHS, step, tier: paintTier } = cheapest!;
+  const shortfallGHS = Math.round((costGHS - budgetGHS) * 100) / 100;
+  const coverableArea = Math.max(0, Math.floor(input.area * (budgetGHS / costGHS)));
+  return {
+    ...list,
+    budget: {
+      tier: paintTier,
+      budgetGHS,
+      withinBudget: false,
+      tradeOffs: getTradeOffs(step, paintTier, tier),
+      shortfallGHS,
+      coverableArea,
+    },
+  };
+};
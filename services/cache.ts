@@ -3,6 +3,13 @@
  * Uses IndexedDB for browser storage across sessions
  */
 
+import { throwIfAborted } from '../lib/abort';
+
+export interface CacheOptions<T = unknown> {
+  signal?: AbortSignal; // Abort to skip the cache write for a cancelled request
+  shouldCache?: (value: T) => boolean; // Return false to hand a fetched value back without storing it
+}
+
 export class ImageCache {
   private static dbName = 'ghanapaint-cache';
   private static dbVersion = 1;
@@ -56,18 +63,48 @@ export class ImageCache {
   /**
    * Get cached value or fetch and cache it
    * OPTIMIZED: Reuses DB connection for better performance
+   * Aborting options.signal rejects with an AbortError and skips the cache write,
+   * so a cancelled request never stores a result nobody asked for
    */
   static async getOrSet<T>(
     key: string,
-    fetcher: () => Promise<T>
+    fetcher: () => Promise<T>,
+    options: CacheOptions<T> = {}
   ): Promise<T> {
+    throwIfAborted(options.signal);
+
+    let db: IDBDatabase;
+    try {
+      db = await this.getDB();
+    } catch (error) {
+      // If IndexedDB fails, reset connection and fall back to in-memory cache
+      this.dbConnection = null;
+      console.warn('IndexedDB failed, using memory cache:', error);
+      return this.getOrSetMemory(key, fetcher, options);
+    }
+
+    const cached = await this.read<T>(db, key);
+    if (cached) {
+      return cached.value;
+    }
+
+    // Cache miss - fetch and store. Fetcher errors (including aborts) propagate untouched
+    const result = await fetcher();
+    throwIfAborted(options.signal);
+    if (options.shouldCache?.(result) !== false) {
+      await this.write(db, key, result);
+    }
+    return result;
+  }
+
+  /**
+   * Unexpired entry for a key; expired entries are deleted
+   */
+  private static async read<T>(db: IDBDatabase, key: string): Promise<{ value: T; timestamp: number } | null> {
     try {
-      const db = await this.getDB();
       const tx = db.transaction(this.storeName, 'readwrite');
       const store = tx.objectStore(this.storeName);
-
-      // Try to get from cache
-      const cached = await new Promise<{ value: T; timestamp: number } | null>((resolve) => {
+      return await new Promise((resolve) => {
         const request = store.get(key);
         request.onsuccess = () => {
           const data = request.result;
@@ -83,29 +120,32 @@ export class ImageCache {
         };
         request.onerror = () => resolve(null);
       });
+    } catch (error) {
+      this.dbConnection = null;
+      console.warn('IndexedDB read failed:', error);
+      const entry = this.memoryCache.get(key);
+      return entry && Date.now() - entry.timestamp < this.TTL ? entry : null;
+    }
+  }
 
-      if (cached) {
-        return cached.value;
-      }
-
-      // Cache miss - fetch and store
-      const result = await fetcher();
-      
+  /**
+   * Store a value in its own transaction - the read transaction has
+   * auto-committed by the time a network fetch resolves
+   */
+  private static async write<T>(db: IDBDatabase, key: string, value: T): Promise<void> {
+    try {
+      const tx = db.transaction(this.storeName, 'readwrite');
+      const store = tx.objectStore(this.storeName);
       await new Promise<void>((resolve, reject) => {
-        const request = store.put(
-          { value: result, timestamp: Date.now() },
-          key
-        );
+        const request = store.put({ value, timestamp: Date.now() }, key);
         request.onsuccess = () => resolve();
         request.onerror = () => reject(request.error);
       });
-
-      return result;
     } catch (error) {
-      // If IndexedDB fails, reset connection and fall back to in-memory cache
+      // Keep the result for this session rather than refetching it
       this.dbConnection = null;
-      console.warn('IndexedDB failed, using memory cache:', error);
-      return this.getOrSetMemory(key, fetcher);
+      console.warn('IndexedDB write failed, using memory cache:', error);
+      this.memoryCache.set(key, { value, timestamp: Date.now() });
     }
   }
 
@@ -116,7 +156,8 @@ export class ImageCache {
 
   private static async getOrSetMemory<T>(
     key: string,
-    fetcher: () => Promise<T>
+    fetcher: () => Promise<T>,
+    options: CacheOptions<T> = {}
   ): Promise<T> {
     const cached = this.memoryCache.get(key);
     if (cached && Date.now() - cached.timestamp < this.TTL) {
@@ -124,7 +165,10 @@ export class ImageCache {
     }
 
     const result = await fetcher();
-    this.memoryCache.set(key, { value: result, timestamp: Date.now() });
+    throwIfAborted(options.signal);
+    if (options.shouldCache?.(result) !== false) {
+      this.memoryCache.set(key, { value: result, timestamp: Date.now() });
+    }
     return result;
   }
 
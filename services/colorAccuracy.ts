@@ -0,0 +1,68 @@
+/**
+ * Color Accuracy - How far a render's paint is from the real paint, in plain language
+ * Image models drift: walls come back darker, more muted or warmer than the chip.
+ * Showing both colors side by side sets expectations before anyone buys paint.
+ */
+
+import { deltaE2000, hexToLab, hexToRgb, rgbToHex } from '../data/colorScience';
+
+export type AccuracyVerdict = 'match' | 'close' | 'off';
+
+export interface ColorAccuracy {
+  requestedHex: string;
+  renderedHex: string; // Average of the repainted region
+  deltaE: number; // ΔE2000; under ~2 is hard to tell apart side by side
+  verdict: AccuracyVerdict;
+  note: string; // e.g. "Rendered slightly darker and more muted than the real paint."
+}
+
+const MATCH_DELTA_E = 3;
+const CLOSE_DELTA_E = 8;
+
+// Smallest differences worth mentioning in the note
+const LIGHTNESS_STEP = 4;
+const CHROMA_STEP = 5;
+const WARMTH_STEP = 4;
+
+export const VERDICT_LABELS: Record<AccuracyVerdict, string> = {
+  match: 'Close match',
+  close: 'Slightly off',
+  off: 'Noticeably off',
+};
+
+const describe = (difference: number, step: number, more: string, less: string): string | null =>
+  Math.abs(difference) < step ? null : difference > 0 ? more : less;
+
+const joinWords = (words: string[]): string =>
+  words.length > 1 ? `${words.slice(0, -1).join(', ')} and ${words[words.length - 1]}` : words[0];
+
+/**
+ * Compare the requested paint color with what the render shows
+ */
+export const describeColorAccuracy = (requestedHex: string, renderedHex: string): ColorAccuracy | null => {
+  const requested = hexToLab(requestedHex);
+  const rendered = hexToLab(renderedHex);
+  if (!requested || !rendered) return null;
+
+  const deltaE = Math.round(deltaE2000(requested, rendered) * 10) / 10;
+  const verdict: AccuracyVerdict = deltaE <= MATCH_DELTA_E ? 'match' : deltaE <= CLOSE_DELTA_E ? 'close' : 'off';
+
+  // Warmth: toward yellow/red (+b, +a) vs toward blue/green
+  const warmth = (rendered.b - requested.b) + (rendered.a - requested.a) / 2;
+  const differences = [
+    describe(rendered.L - requested.L, LIGHTNESS_STEP, 'lighter', 'darker'),
+    describe(Math.hypot(rendered.a, rendered.b) - Math.hypot(requested.a, requested.b), CHROMA_STEP, 'more vivid', 'more muted'),
+    describe(warmth, WARMTH_STEP, 'warmer', 'cooler'),
+  ].filter((d): d is string => d !== null);
+
+  let note: string;
+  if (verdict === 'match') {
+    note = 'Rendered close to the real paint.';
+  } else if (differences.length === 0) {
+    note = 'Rendered a little off from the real paint.';
+  } else {
+    note = `Rendered ${verdict === 'off' ? 'noticeably' : 'slightly'} ${joinWords(differences)} than the real paint.`;
+  }
+
+  return { requestedHex: rgbToHex(hexToRgb(requestedHex)!), renderedHex, deltaE, verdict, note };
+};
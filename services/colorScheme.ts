@@ -0,0 +1,56 @@
+/**
+ * Color Scheme - Body / trim / accent roles for multi-color paint jobs
+ * Roles share the job's measured area: trim and accent take a typical share, the body the rest
+ */
+
+import type { ColorScheme, PaletteColor, SchemeRole } from '../types';
+
+export const SCHEME_ROLES: SchemeRole[] = ['body', 'trim', 'accent'];
+
+export const ROLE_LABELS: Record<SchemeRole, string> = {
+  body: 'Body',
+  trim: 'Trim',
+  accent: 'Accent',
+};
+
+// What each role covers - shown in the UI and sent to the model
+export const ROLE_DESCRIPTIONS: Record<SchemeRole, string> = {
+  body: 'main walls',
+  trim: 'window and door trim, edges and columns',
+  accent: 'gate, fence details and feature elements',
+};
+
+// Share of the total paintable area for the optional roles (typical Ghanaian house front)
+const ROLE_AREA_SHARE: Record<Exclude<SchemeRole, 'body'>, number> = {
+  trim: 0.15,
+  accent: 0.1,
+};
+
+/**
+ * Assigned roles in display order, body first
+ */
+export const getSchemeColors = (scheme: ColorScheme): { role: SchemeRole; color: PaletteColor }[] =>
+  SCHEME_ROLES.filter(role => scheme[role]).map(role => ({ role, color: scheme[role]! }));
+
+/**
+ * A scheme needs a body color plus at least one more role
+ */
+export const isCompleteScheme = (scheme: Partial<ColorScheme>): scheme is ColorScheme =>
+  !!scheme.body && (!!scheme.trim || !!scheme.accent);
+
+/**
+ * m² per assigned role; the body gets whatever the other roles don't
+ */
+export const splitSchemeArea = (area: number, scheme: ColorScheme): Record<SchemeRole, number> => {
+  const trim = scheme.trim ? Math.round(area * ROLE_AREA_SHARE.trim * 10) / 10 : 0;
+  const accent = scheme.accent ? Math.round(area * ROLE_AREA_SHARE.accent * 10) / 10 : 0;
+  return { body: Math.round((area - trim - accent) * 10) / 10, trim, accent };
+};
+
+/**
+ * Stable cache id for a scheme, e.g. "scheme_B#F5F5DC_T#8B4513"
+ */
+export const getSchemeKey = (scheme: ColorScheme): string =>
+  `scheme_${getSchemeColors(scheme)
+    .map(({ role, color }) => `${role[0].toUpperCase()}${color.hex.trim().toUpperCase()}`)
+    .join('_')}`;
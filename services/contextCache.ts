@@ -0,0 +1,80 @@
+/**
+ * Context Cache Registry - Which remote context cache holds each analyzed photo, and until when
+ * Analyses are cached for days but the remote cache lives 24 hours, so the name is kept here
+ * (image hash → name + expiry) instead of inside the cached analysis, and dropped once it expires
+ */
+
+import { getAIProvider } from './ai';
+
+const STORAGE_KEY = 'huey_context_caches';
+const EXPIRY_MARGIN_MS = 5 * 60 * 1000; // Treat a cache as gone a little early - a render can take a minute
+
+interface ContextCacheEntry {
+  name: string;
+  expiresAt: number; // Timestamp
+}
+
+type Registry = Record<string, ContextCacheEntry>; // Image hash → cache
+
+function loadRegistry(): Registry {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    const data = stored ? JSON.parse(stored) : {};
+    return data && typeof data === 'object' ? data : {};
+  } catch (error) {
+    console.warn('Failed to load context caches:', error);
+    return {};
+  }
+}
+
+function saveRegistry(registry: Registry): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(registry));
+  } catch (error) {
+    console.warn('Failed to save context caches:', error);
+  }
+}
+
+/**
+ * Drop every entry that has expired (or is about to)
+ */
+function pruneExpired(registry: Registry): Registry {
+  const cutoff = Date.now() + EXPIRY_MARGIN_MS;
+  return Object.fromEntries(Object.entries(registry).filter(([, entry]) =>
+    typeof entry?.name === 'string' && typeof entry.expiresAt === 'number' && entry.expiresAt > cutoff));
+}
+
+/**
+ * Remember the cache an analysis created (or reused) for a photo
+ */
+export function rememberContextCache(imageHash: string, name: string, expiresAt: number): void {
+  const registry = pruneExpired(loadRegistry());
+  registry[imageHash] = { name, expiresAt };
+  saveRegistry(registry);
+}
+
+/**
+ * Cache name for a photo if it is still live; expired names are removed, never returned
+ */
+export function getContextCacheName(imageHash: string): string | undefined {
+  const stored = loadRegistry();
+  const registry = pruneExpired(stored);
+  if (Object.keys(registry).length !== Object.keys(stored).length) saveRegistry(registry);
+  return registry[imageHash]?.name;
+}
+
+/**
+ * Forget a photo's cache and delete it remotely (project closed); failures only cost storage until expiry
+ */
+export function releaseContextCache(imageHash: string): void {
+  const registry = loadRegistry();
+  const entry = registry[imageHash];
+  if (!entry) return;
+  delete registry[imageHash];
+  saveRegistry(registry);
+
+  const provider = getAIProvider();
+  if (entry.expiresAt > Date.now() && provider.releaseContextCache) {
+    provider.releaseContextCache(entry.name).catch(error => console.warn('Could not release context cache:', error));
+  }
+}
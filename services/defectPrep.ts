@@ -0,0 +1,85 @@
+/**
+ * Defect Prep - What each detected defect means for the job: prep steps, labels and overlay colors
+ * The calculator turns the same defects into materials (filler, fungicidal wash, stabilising primer),
+ * so what the photo shows ends up on the shopping list
+ * Pure module: used by the server routes and the browser alike
+ */
+
+import type { Defect, DefectSeverity, DefectType } from '../types';
+
+export const DEFECT_TYPES: DefectType[] = ['crack', 'peeling', 'mould', 'damp', 'chalking', 'efflorescence'];
+
+export const DEFECT_SEVERITIES: DefectSeverity[] = ['minor', 'moderate', 'severe'];
+
+export const DEFECT_LABELS: Record<DefectType, string> = {
+  crack: 'Cracks',
+  peeling: 'Peeling paint',
+  mould: 'Mould',
+  damp: 'Damp patch',
+  chalking: 'Chalking',
+  efflorescence: 'Efflorescence (salts)',
+};
+
+export const SEVERITY_LABELS: Record<DefectSeverity, string> = {
+  minor: 'Minor',
+  moderate: 'Moderate',
+  severe: 'Severe',
+};
+
+// Overlay box colors - amber to red as severity rises
+export const SEVERITY_COLORS: Record<DefectSeverity, string> = {
+  minor: '#f59e0b',
+  moderate: '#f97316',
+  severe: '#dc2626',
+};
+
+// Relative amount of material a defect takes (e.g. tubs of filler per crack)
+export const SEVERITY_WEIGHTS: Record<DefectSeverity, number> = {
+  minor: 0.5,
+  moderate: 1,
+  severe: 2,
+};
+
+// Prep per defect, in DEFECT_TYPES order (the order the work is done); primer = needs a sealing coat afterwards
+const DEFECT_PREP: Record<DefectType, { step: string; primer: boolean }> = {
+  crack: { step: 'Rake out loose material, fill with wall filler and sand flush once dry', primer: false },
+  peeling: { step: 'Scrape off all loose paint and sand the edges smooth', primer: true },
+  mould: { step: 'Treat with fungicidal wash, leave 24 hours, then scrub and rinse', primer: true },
+  damp: { step: 'Find and fix the source of the moisture, then let the wall dry out fully before painting', primer: true },
+  chalking: { step: 'Brush off the powdery surface and seal with stabilising primer', primer: true },
+  efflorescence: { step: 'Dry-brush off the salt deposits (no water) and seal with stabilising primer', primer: true },
+};
+
+/**
+ * Defects of one type, e.g. for "Cracks (3, 1 severe)"
+ */
+const countLabel = (defects: Defect[]): string => {
+  const severe = defects.filter(d => d.severity === 'severe').length;
+  return severe > 0 ? `${defects.length}, ${severe} severe` : `${defects.length}`;
+};
+
+/**
+ * Prep steps for the detected defects, one per defect type, in working order
+ */
+export const getPrepSteps = (defects: Defect[] = []): string[] =>
+  DEFECT_TYPES
+    .map(type => defects.filter(d => d.type === type))
+    .filter(ofType => ofType.length > 0)
+    .map(ofType => `${DEFECT_LABELS[ofType[0].type]} (${countLabel(ofType)}): ${DEFECT_PREP[ofType[0].type].step}`);
+
+/**
+ * Whether any defect needs a primer/sealer coat before painting
+ */
+export const defectsNeedPrimer = (defects: Defect[] = []): boolean => defects.some(d => DEFECT_PREP[d.type].primer);
+
+/**
+ * Total severity weight of the defects of the given types (0 when none)
+ */
+export const getDefectWeight = (defects: Defect[] = [], types: DefectType[]): number =>
+  defects.filter(d => types.includes(d.type)).reduce((sum, d) => sum + SEVERITY_WEIGHTS[d.severity], 0);
+
+/**
+ * Short stable description of the defects for cache keys, e.g. "crack-minor.mould-severe"
+ */
+export const getDefectKey = (defects: Defect[] = []): string =>
+  defects.map(d => `${d.type}-${d.severity}`).sort().join('.') || 'none';
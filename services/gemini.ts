@@ -1,11 +1,39 @@
-import { GoogleGenAI, Type, Schema } from "@google/genai";
-import { AnalysisResult, ShoppingList } from "../types";
-import { PAINT_COLORS, formatColorsForPrompt } from "../data/paintColors";
+/**
+ * AI operations used by the app, routed through the active AIProvider (see services/ai/)
+ * Plus image compression helpers for what gets sent to the provider
+ */
 
-const API_KEY = process.env.API_KEY || '';
+import { AnalysisResult, ColorScheme, ShoppingList, Surface } from "../types";
+import { snapPalettesToCatalog } from "./paletteSnap";
+import { PaintProduct } from "../data/paintProducts";
+import { getAIProvider, AIError, withRetry, RetryOptions, AnalysisWithCache } from "./ai";
+import { validateAnalysisResult } from "./ai/validation";
+import { getVisualizePromptId } from "../data/prompts";
+import { getSessionPromptVersion } from "./promptExperiment";
+import { getConfidentSpaceType } from "./spaceType";
+import { verifyVisualization, isBetterCheck, CheckOptions, CHECK_MESSAGES, VisualizationCheck } from "./visualizationCheck";
 
-// Initialize the client
-const ai = new GoogleGenAI({ apiKey: API_KEY });
+/**
+ * Per-call options; onRetry reports retries so the loading UI can show "Retrying (2/3)…",
+ * and aborting the signal cancels the request (including pending retries)
+ */
+export type AICallOptions = Pick<RetryOptions, 'onRetry' | 'signal'>;
+
+export type RenderOptions = AICallOptions & {
+  onRender?: () => void; // Once per paid render that came back, re-renders after a failed check included
+};
+
+/**
+ * A render plus how it fared against the photo; check is null when it could not be run
+ */
+export interface Visualization {
+  image: string;
+  check: VisualizationCheck | null;
+  promptVersion: string; // Prompt the render was requested with (see data/prompts.ts)
+}
+
+const RENDER_ATTEMPTS = 2; // A render that fails the check gets one paid re-render, then is flagged
+const MIN_SURFACE_CHANGED_FRACTION = 0.005; // A single gate or trim covers little of the photo
 
 /**
  * Compress image before sending to API (reduces token costs)
@@ -117,288 +145,142 @@ export const fileToGenerativePart = async (file: File): Promise<string> => {
   });
 };
 
-/**
- * Creates cached content for image analysis (Phase 2.1: Context Caching API)
- * Falls back gracefully if API doesn't support caching
- */
-const createCachedAnalysis = async (base64Image: string): Promise<string | null> => {
-  try {
-    // Check if caches API is available
-    if (typeof ai.caches === 'undefined' || !ai.caches.create) {
-      return null;
-    }
-    
-    const response = await ai.caches.create({
-      model: 'gemini-2.5-flash',
-      config: {
-        contents: [
-          { inlineData: { mimeType: 'image/jpeg', data: base64Image } },
-          { text: "Analyze this image structure and identify wall surfaces, materials, and architectural features." }
-        ],
-        ttl: '86400s' // 24 hours
-      }
-    });
-    
-    return response.name; // Returns cache name like "cachedContents/..."
-  } catch (error) {
-    // Graceful fallback - context caching not available or failed
-    console.warn('Context caching not available, using standard flow:', error);
-    return null;
-  }
-};
-
 /**
  * Analyzes the uploaded image to identify surface, condition, and suggest colors.
- * PHASE 2.1: Supports context caching for cost optimization
+ * PHASE 2.1: The Gemini provider also returns a context cache name for visualization
  */
 export const analyzeImageForPaint = async (
   base64Image: string,
-  fullSizeImage?: string // Full size image for context caching
-): Promise<AnalysisResult & { cacheName?: string }> => {
-  const analysisSchema: Schema = {
-    type: Type.OBJECT,
-    properties: {
-      surfaceType: { type: Type.STRING, description: "Wall material: Concrete/Plaster/Wood" },
-      condition: { type: Type.STRING, description: "Surface condition: New/Good/Peeling/Moldy" },
-      description: { 
-        type: Type.STRING, 
-        description: "Simple, informative description: Key structural features (wall locations, columns, recesses) and treatment needs if any. Keep concise (1-2 sentences). Tone: clear and helpful. Example: 'Front and side walls visible with two columns. Requires primer for peeling areas.'" 
-      },
-      estimatedAreaWarning: { type: Type.STRING, description: "Note about measurements needed" },
-      palettes: {
-        type: Type.ARRAY,
-        items: {
-          type: Type.OBJECT,
-          properties: {
-            name: { type: Type.STRING },
-            description: { type: Type.STRING },
-            colors: {
-              type: Type.ARRAY,
-              items: {
-                type: Type.OBJECT,
-                properties: {
-                  name: { type: Type.STRING, description: "Paint color name" },
-                  hex: { type: Type.STRING, description: "Hex color code" }
-                }
-              },
-              description: "Colors ordered by relevance - most recommended colors first, then alternatives"
-            }
-          }
-        }
-      }
-    }
-  };
+  fullSizeImage?: string, // Full size image for context caching
+  options: AICallOptions = {}
+): Promise<AnalysisWithCache> => {
+  const raw = await withRetry(() => getAIProvider().analyzeImage(base64Image, fullSizeImage, options.signal), options);
 
-  // Get real paint colors from manufacturer data
-  const neuceColors = PAINT_COLORS.neuce || [];
-  const azarColors = PAINT_COLORS.azar || [];
-  
-  // COST OPTIMIZATION Step 2: Optimize prompt - Reference colors instead of listing all
-  // This reduces prompt size by 300-500 tokens (20-30% cost reduction)
-  // Color lists are available in system instruction context, no need to repeat in prompt
+  // The server already validates, but every provider's output is checked before it reaches the UI
+  const result = validateAnalysisResult(raw);
+  if (!result.ok) {
+    console.error('Invalid analysis from provider:', result.errors);
+    throw new AIError('invalid_response', 'The photo analysis came back incomplete. Please try again.');
+  }
 
-  const response = await ai.models.generateContent({
-    model: 'gemini-2.5-flash', // Using available model for this API version
-    contents: {
-      parts: [
-        { inlineData: { mimeType: 'image/jpeg', data: base64Image } },
-        { text: `Identify surface material, condition, and space type (interior/exterior).
+  // Model sometimes invents names or drifts hexes - snap every suggestion to a real product
+  // (extra fields such as cacheName pass through validation untouched)
+  return { ...result.value, palettes: snapPalettesToCatalog(result.value.palettes, getConfidentSpaceType(result.value)) };
+};
 
-For description: Write a simple, informative 1-2 sentence description covering:
-- Key structural features (wall locations, columns, recesses, trim)
-- Treatment needs if any (e.g., 'Requires primer for peeling areas' or 'No treatment needed')
-Use clear, helpful language. Skip aesthetic details.
+/**
+ * What a render is checked against: single colors also get a color accuracy report,
+ * a targeted surface may cover only a small part of the photo
+ */
+export const getCheckOptions = (colorHex?: string, surface?: Surface): CheckOptions => ({
+  colorHex,
+  minChangedFraction: surface ? MIN_SURFACE_CHANGED_FRACTION : undefined,
+});
 
-Generate 3 palettes:
-1. "AI-CURATED SUGGESTION" - 3-4 colors from available Neuce and Azar collections
-   Prioritize colors NOT in NEUCE/AZAR sections. Include: (a) colors similar to current wall, (b) complementary colors matching space style.
-2. "NEUCE PAINTS" - 4-5 colors from Neuce collection (10 colors available)
-3. "AZAR PAINTS" - 4-5 colors from Azar collection (10 colors available)
+/**
+ * Prompt version a single-color render uses - with the variant key, it identifies a cached render
+ */
+export const getVisualizationPromptVersion = (analysisContext?: AnalysisResult, surface?: Surface): string =>
+  getSessionPromptVersion(getVisualizePromptId(!!surface, !!analysisContext));
 
-Order colors by relevance. Most recommended first. Use exact color names and hex codes from available collections.` }
-      ]
-    },
-    config: {
-      responseMimeType: 'application/json',
-      responseSchema: analysisSchema,
-      systemInstruction: `Architectural consultant in Ghana. Write descriptions in simple, clear, helpful language. 
-Available paint colors:
-- Neuce collection (10 colors): ${formatColorsForPrompt(neuceColors)}
-- Azar collection (10 colors): ${formatColorsForPrompt(azarColors)}
+/**
+ * Render, then check the result against the photo (see visualizationCheck.ts)
+ * A failed check re-renders once, reported through onRetry; if that fails too,
+ * the better of the two renders is returned with its failed check
+ */
+const renderVerified = async (
+  base64Image: string,
+  render: (signal?: AbortSignal) => Promise<string>,
+  checkOptions: CheckOptions,
+  promptVersion: string,
+  options: RenderOptions
+): Promise<Visualization> => {
+  let best: Visualization | null = null;
+  for (let attempt = 1; attempt <= RENDER_ATTEMPTS; attempt++) {
+    const image = await withRetry(() => render(options.signal), options);
+    options.onRender?.();
 
-For AI-CURATED: prioritize colors NOT in NEUCE/AZAR sections. Focus on complementary alternatives, trendy options, or unique combinations. Include colors similar to current wall (for identification) and new complementary colors (for alternatives). Match space style and lighting. Order colors strategically: first positions should mix (1) colors closest to current wall color, and (2) best recommended colors for the space. Most relevant first. Use exact name and hex from lists above.`
+    let check: VisualizationCheck;
+    try {
+      check = await verifyVisualization(base64Image, image, checkOptions);
+    } catch (error) {
+      // Can't decode for comparison - show the render rather than fail it
+      console.warn('Could not verify visualization:', error);
+      return { image, check: null, promptVersion };
     }
-  });
+    if (check.ok) return { image, check, promptVersion };
 
-  if (!response.text) throw new Error("No analysis received from Gemini.");
-  const analysis = JSON.parse(response.text) as AnalysisResult;
-  
-  // PHASE 2.1: Create cached content for reuse in visualization (cost optimization)
-  // Use full size image if provided, otherwise use analysis image
-  const imageForCache = fullSizeImage || base64Image;
-  try {
-    const cacheName = await createCachedAnalysis(imageForCache);
-    if (cacheName) {
-      return { ...analysis, cacheName };
+    if (!best || isBetterCheck(check, best.check!)) best = { image, check, promptVersion };
+    if (attempt < RENDER_ATTEMPTS) {
+      console.warn('Visualization failed the check, re-rendering:', check);
+      options.onRetry?.({
+        attempt: attempt + 1,
+        maxAttempts: RENDER_ATTEMPTS,
+        delayMs: 0,
+        error: new AIError('invalid_response', CHECK_MESSAGES[check.issues[0]]),
+      });
     }
-  } catch (error) {
-    // Non-critical - continue without cache
-    console.warn('Failed to create cached content:', error);
   }
-  
-  return analysis;
+  return best!;
 };
 
 /**
  * Generates a visualized image with the new color applied.
- * OPTIMIZED: Reuses surface analysis data and supports context caching for cost optimization
+ * Reuses surface analysis data and the context cache when available
+ * Paints every wall unless a single surface from the analysis is targeted
  */
-export const visualizeColor = async (
-  base64Image: string, 
-  colorName: string, 
+export const visualizeColor = (
+  base64Image: string,
+  colorName: string,
   colorHex: string,
-  analysisContext?: AnalysisResult & { cacheName?: string }
-): Promise<string> => {
-  try {
-    // Normalize hex value for consistent processing
-    const normalizedHex = colorHex.trim().toUpperCase().replace(/^#/, '');
-    const normalizedHexWithHash = normalizedHex.startsWith('#') ? normalizedHex : `#${normalizedHex}`;
-    
-    // PHASE 2.3: Optimized shorter prompt (100-150 token reduction)
-    let enhancedPrompt = analysisContext
-      ? `Paint all ${analysisContext.surfaceType} walls with ${colorName} (${normalizedHexWithHash}).
-Surface: ${analysisContext.condition}. ${analysisContext.description}
-Apply uniformly to all painted wall surfaces. Preserve windows, doors, furniture, sky, vegetation.`
-      : `Paint all wall surfaces with ${colorName} (${normalizedHexWithHash}).
-Apply uniformly. Preserve windows, doors, furniture, sky, vegetation.`;
-    
-    // Enhanced system instruction with analysis context
-    const systemInstruction = analysisContext
-      ? `Paint visualization tool. Surface: ${analysisContext.surfaceType} (${analysisContext.condition}). Paint ALL painted wall surfaces uniformly with specified color. Preserve windows, doors, furniture, sky, vegetation.`
-      : "Paint visualization tool. Paint ALL painted wall surfaces uniformly. Preserve windows, doors, furniture, sky, vegetation.";
-    
-    // PHASE 2.1: Use cached content if available (reduces image token costs by 200-400 tokens)
-    const contents: any[] = [];
-    if (analysisContext?.cacheName) {
-      try {
-        contents.push({ cachedContent: { name: analysisContext.cacheName } });
-      } catch (error) {
-        // Fallback to image if cached content fails
-        contents.push({ inlineData: { mimeType: 'image/jpeg', data: base64Image } });
-      }
-    } else {
-      contents.push({ inlineData: { mimeType: 'image/jpeg', data: base64Image } });
-    }
-    contents.push({ text: enhancedPrompt });
-    
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash-image',
-      contents: {
-        parts: contents
-      },
-      config: {
-        systemInstruction
-      }
-    });
-
-    // Check for errors in response
-    const finishReason = response.candidates?.[0]?.finishReason;
-    
-    if (finishReason === 'SAFETY') {
-      throw new Error("Content was blocked for safety reasons. Try a different color.");
-    }
-
-  // Extract the image from the response
-  const parts = response.candidates?.[0]?.content?.parts;
-    
-  if (parts) {
-    for (const part of parts) {
-      if (part.inlineData && part.inlineData.data) {
-          const result = `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
-          
-          // Check if result is identical to input (simple string comparison)
-          // Note: base64Image is already just the base64 data (no data URL prefix)
-          // This won't catch subtle changes, but will catch exact duplicates
-          const inputBase64 = base64Image.replace(/^data:image\/[^;]+;base64,/, ''); // Remove prefix if present
-          const resultBase64 = part.inlineData.data;
-          
-          if (inputBase64 === resultBase64) {
-            throw new Error("The AI returned an unchanged image. Please try a different color or upload a clearer photo of the walls.");
-          }
-          
-          return result;
-    }
-  }
-    }
-    
-    console.error('No image data in response. Response structure:', {
-      candidates: response.candidates?.length,
-      finishReason: response.candidates?.[0]?.finishReason,
-      parts: parts?.length
-    });
-    throw new Error("Failed to generate visualization image. No image data in response.");
-  } catch (error: any) {
-    // Handle quota/rate limit errors
-    if (error.status === 429 || error.error?.code === 429) {
-      const retryAfter = error.error?.details?.find((d: any) => d['@type']?.includes('RetryInfo'))?.retryDelay;
-      const retrySeconds = retryAfter ? parseInt(retryAfter.replace('s', '')) : 30;
-      throw new Error(
-        `API quota exceeded. Please wait ${retrySeconds} seconds and try again, or upgrade your API plan. ` +
-        `Visit: https://ai.google.dev/gemini-api/docs/rate-limits`
-      );
-    }
-    throw error;
-  }
-};
+  analysisContext?: AnalysisResult & { cacheName?: string },
+  surface?: Surface,
+  options: RenderOptions = {}
+): Promise<Visualization> =>
+  renderVerified(
+    base64Image,
+    signal => getAIProvider().visualizeColor(base64Image, colorName, colorHex, analysisContext, surface, signal),
+    getCheckOptions(colorHex, surface),
+    getVisualizationPromptVersion(analysisContext, surface),
+    options
+  );
 
 /**
- * Generates a detailed shopping list including hardware.
- * Optimized: No longer requires image (uses analysis results instead).
+ * Generates one visualized image with every color of a body/trim/accent scheme applied
+ * Several colors share the changed region, so only the size of the changed area is checked
  */
-export const generateShoppingList = async (
-  surfaceType: string, 
-  condition: string, 
-  selectedColor: string, 
-  area: number
-): Promise<ShoppingList> => {
-  const shoppingSchema: Schema = {
-    type: Type.OBJECT,
-    properties: {
-      items: {
-        type: Type.ARRAY,
-        items: {
-          type: Type.OBJECT,
-          properties: {
-            name: { type: Type.STRING, description: "Product name (e.g. 20L Emulsion Bucket)" },
-            category: { type: Type.STRING, enum: ['Paint', 'Primer', 'Hardware', 'Preparation', 'Other'] },
-            quantity: { type: Type.NUMBER },
-            unit: { type: Type.STRING },
-            estimatedPriceGHS: { type: Type.NUMBER, description: "Price in Ghana Cedis" },
-            reason: { type: Type.STRING, description: "Why this is needed (e.g. 'For rough surface')" }
-          }
-        }
-      },
-      totalMaterialCostGHS: { type: Type.NUMBER },
-      estimatedLaborCostGHS: { type: Type.NUMBER },
-      installationNotes: { type: Type.STRING }
-    }
-  };
-
-  const response = await ai.models.generateContent({
-    model: 'gemini-1.5-flash', // Cheaper model - shopping list is text-only, doesn't need latest model
-    contents: {
-      parts: [
-        // Removed image - we already have analysis results
-        { text: `Shopping list: ${surfaceType} wall, ${condition} condition, color '${selectedColor}', ${area}m². Include primer if needed. Add brushes, rollers, trays, masking tape, drop cloths. Prices in GHS.` }
-      ]
-    },
-    config: {
-      responseMimeType: 'application/json',
-      responseSchema: shoppingSchema,
-      systemInstruction: "Hardware store sales manager in Koforidua. Include all necessary tools and materials."
-    }
-  });
+export const visualizeScheme = (
+  base64Image: string,
+  scheme: ColorScheme,
+  analysisContext?: AnalysisResult & { cacheName?: string },
+  options: RenderOptions = {}
+): Promise<Visualization> =>
+  renderVerified(
+    base64Image,
+    signal => getAIProvider().visualizeScheme(base64Image, scheme, analysisContext, signal),
+    getCheckOptions(),
+    getSessionPromptVersion('scheme'),
+    options
+  );
 
-  if (!response.text) throw new Error("No shopping list received.");
-  return JSON.parse(response.text) as ShoppingList;
+/**
+ * Optional AI pass over a calculated shopping list: adds practical installation notes.
+ * Quantities and prices stay exactly as the local calculator produced them.
+ */
+export const generateShoppingNotes = async (
+  surfaceType: string,
+  condition: string,
+  selectedColor: string,
+  list: ShoppingList,
+  paint?: PaintProduct,
+  options: AICallOptions = {}
+): Promise<string> => {
+  const notes = await withRetry(() => getAIProvider().generateShoppingNotes({
+    surfaceType,
+    condition,
+    colorLabel: selectedColor,
+    list,
+    paint,
+  }, options.signal), options);
+  return notes || list.installationNotes;
 };
@@ -0,0 +1,218 @@
+/**
+ * Local Recolor - Free, instant previews on a canvas (no model call)
+ * The user builds a wall mask with a brush or tap-to-fill; masked pixels move to the target
+ * color in LAB space while keeping their lightness relative to the wall, so shadows and
+ * texture survive. Also the recolor engine behind the offline mock provider.
+ */
+
+import { hexToLab, rgbToLab, labToRgb, Lab } from '../data/colorScience';
+
+/**
+ * Per-pixel coverage, 0 (untouched) to 255 (fully repainted); same size as the image
+ */
+export interface WallMask {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+}
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export const PREVIEW_MAX_SIDE = 900; // Working resolution - large enough to judge, small enough for live edits
+
+export const createMask = (width: number, height: number): WallMask => ({
+  width,
+  height,
+  data: new Uint8ClampedArray(width * height),
+});
+
+export const isMaskEmpty = (mask: WallMask): boolean => !mask.data.some(v => v > 0);
+
+/**
+ * Decode an image (data URL or URL) into pixels, scaled down to fit maxSide
+ * @param size Exact output size instead (e.g. to compare two images pixel for pixel)
+ */
+export const loadImageData = (
+  src: string,
+  maxSide = Infinity,
+  size?: { width: number; height: number }
+): Promise<ImageData> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => {
+      const scale = Math.min(1, maxSide / Math.max(img.naturalWidth, img.naturalHeight));
+      const canvas = document.createElement('canvas');
+      canvas.width = size?.width ?? Math.max(1, Math.round(img.naturalWidth * scale));
+      canvas.height = size?.height ?? Math.max(1, Math.round(img.naturalHeight * scale));
+      const ctx = canvas.getContext('2d');
+      if (!ctx) {
+        reject(new Error('Could not get canvas context'));
+        return;
+      }
+      ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+      resolve(ctx.getImageData(0, 0, canvas.width, canvas.height));
+    };
+    img.onerror = () => reject(new Error('Could not load image for recoloring.'));
+    img.src = src;
+  });
+
+export const imageDataToDataUrl = (imageData: ImageData, quality = 0.9): string => {
+  const canvas = document.createElement('canvas');
+  canvas.width = imageData.width;
+  canvas.height = imageData.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Could not get canvas context');
+  ctx.putImageData(imageData, 0, 0);
+  return canvas.toDataURL('image/jpeg', quality);
+};
+
+/**
+ * Paint (or erase) a soft-edged dot into the mask
+ */
+export const stampBrush = (mask: WallMask, center: Point, radius: number, erase = false): void => {
+  const { width, height, data } = mask;
+  const r = Math.max(1, radius);
+  const minX = Math.max(0, Math.floor(center.x - r));
+  const maxX = Math.min(width - 1, Math.ceil(center.x + r));
+  const minY = Math.max(0, Math.floor(center.y - r));
+  const maxY = Math.min(height - 1, Math.ceil(center.y + r));
+
+  for (let y = minY; y <= maxY; y++) {
+    for (let x = minX; x <= maxX; x++) {
+      const distance = Math.hypot(x - center.x, y - center.y);
+      if (distance > r) continue;
+      // Full strength in the inner 70%, feathered to 0 at the rim
+      const strength = Math.round(255 * Math.min(1, (r - distance) / (r * 0.3)));
+      const i = y * width + x;
+      data[i] = erase ? Math.min(data[i], 255 - strength) : Math.max(data[i], strength);
+    }
+  }
+};
+
+/**
+ * Brush stroke between two pointer positions (stamps spaced so fast drags leave no gaps)
+ */
+export const strokeBrush = (mask: WallMask, from: Point, to: Point, radius: number, erase = false): void => {
+  const steps = Math.max(1, Math.ceil(Math.hypot(to.x - from.x, to.y - from.y) / Math.max(1, radius / 3)));
+  for (let s = 0; s <= steps; s++) {
+    const t = s / steps;
+    stampBrush(mask, { x: from.x + (to.x - from.x) * t, y: from.y + (to.y - from.y) * t }, radius, erase);
+  }
+};
+
+/**
+ * Lab for every pixel, computed once per image - flood fills and recolors reuse it
+ */
+export const toLabPixels = (imageData: ImageData): Float32Array => {
+  const { data } = imageData;
+  const lab = new Float32Array((data.length / 4) * 3);
+  for (let i = 0, p = 0; i < data.length; i += 4, p += 3) {
+    const { L, a, b } = rgbToLab({ r: data[i], g: data[i + 1], b: data[i + 2] });
+    lab[p] = L;
+    lab[p + 1] = a;
+    lab[p + 2] = b;
+  }
+  return lab;
+};
+
+/**
+ * Tap-to-fill: add (or erase) the connected region that looks like the tapped pixel
+ * Lightness counts for less than hue so the shaded side of the same wall is included
+ */
+export const floodFillMask = (
+  mask: WallMask,
+  lab: Float32Array,
+  seed: Point,
+  tolerance = 14,
+  erase = false
+): void => {
+  const { width, height, data } = mask;
+  const sx = Math.round(seed.x);
+  const sy = Math.round(seed.y);
+  if (sx < 0 || sy < 0 || sx >= width || sy >= height) return;
+
+  const start = sy * width + sx;
+  const seedL = lab[start * 3];
+  const seedA = lab[start * 3 + 1];
+  const seedB = lab[start * 3 + 2];
+  const matches = (p: number) => {
+    const dL = (lab[p * 3] - seedL) * 0.4;
+    const dA = lab[p * 3 + 1] - seedA;
+    const dB = lab[p * 3 + 2] - seedB;
+    return dL * dL + dA * dA + dB * dB <= tolerance * tolerance;
+  };
+
+  const visited = new Uint8Array(width * height);
+  const stack = [start];
+  visited[start] = 1;
+  while (stack.length > 0) {
+    const p = stack.pop()!;
+    data[p] = erase ? 0 : 255;
+    const x = p % width;
+    const neighbors = [
+      x > 0 ? p - 1 : -1,
+      x < width - 1 ? p + 1 : -1,
+      p - width,
+      p + width,
+    ];
+    for (const n of neighbors) {
+      if (n < 0 || n >= width * height || visited[n]) continue;
+      visited[n] = 1;
+      if (matches(n)) stack.push(n);
+    }
+  }
+};
+
+/**
+ * Light, low-saturation pixels - typical painted walls - as a mask (used when there is no user mask)
+ */
+export const detectWallMask = (imageData: ImageData, lab: Float32Array = toLabPixels(imageData)): WallMask => {
+  const mask = createMask(imageData.width, imageData.height);
+  for (let p = 0; p < mask.data.length; p++) {
+    const L = lab[p * 3];
+    const chroma = Math.hypot(lab[p * 3 + 1], lab[p * 3 + 2]);
+    if (L > 35 && L < 97 && chroma < 25) mask.data[p] = 255;
+  }
+  return mask;
+};
+
+/**
+ * Repaint masked pixels in the target color
+ * Each pixel keeps its lightness relative to the masked average, so shading and texture survive;
+ * partial coverage (feathered brush edges) blends with the original
+ */
+export const recolorWithMask = (
+  imageData: ImageData,
+  mask: WallMask,
+  colorHex: string,
+  lab: Float32Array = toLabPixels(imageData)
+): ImageData => {
+  const target: Lab | null = hexToLab(colorHex);
+  if (!target) throw new Error(`Invalid color "${colorHex}".`);
+
+  let weightedLightness = 0;
+  let totalWeight = 0;
+  for (let p = 0; p < mask.data.length; p++) {
+    const weight = mask.data[p];
+    if (weight === 0) continue;
+    weightedLightness += lab[p * 3] * weight;
+    totalWeight += weight;
+  }
+  const wallLightness = totalWeight > 0 ? weightedLightness / totalWeight : 70;
+
+  const output = new ImageData(new Uint8ClampedArray(imageData.data), imageData.width, imageData.height);
+  const { data } = output;
+  for (let p = 0, i = 0; p < mask.data.length; p++, i += 4) {
+    const coverage = mask.data[p] / 255;
+    if (coverage === 0) continue;
+    const L = Math.max(0, Math.min(100, target.L + (lab[p * 3] - wallLightness)));
+    const rgb = labToRgb({ L, a: target.a, b: target.b });
+    data[i] = data[i] + (rgb.r - data[i]) * coverage;
+    data[i + 1] = data[i + 1] + (rgb.g - data[i + 1]) * coverage;
+    data[i + 2] = data[i + 2] + (rgb.b - data[i + 2]) * coverage;
+  }
+  return output;
+};
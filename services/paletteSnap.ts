@@ -0,0 +1,106 @@
+/**
+ * Palette Snapping - Maps AI-suggested colors onto real catalog products
+ * The model is asked for exact catalog names/hexes but sometimes invents them,
+ * so every suggestion is matched against PAINT_COLORS before it reaches the UI
+ */
+
+import { Palette, PaletteColor, SpaceType } from '../types';
+import { PaintColor, PAINT_COLORS } from '../data/paintColors';
+import { findNearestColor, hexDeltaE, hexToRgb, rgbToHex } from '../data/colorScience';
+
+// Max CIEDE2000 distance for snapping to the nearest product by color alone
+export const SNAP_MAX_DELTA_E = 6;
+// Looser limit when the model also got the product name right (hex slightly off)
+export const NAME_MATCH_MAX_DELTA_E = 15;
+
+const MANUFACTURERS: PaintColor['manufacturer'][] = ['Neuce', 'Azar', 'Leyland', 'Shield'];
+
+/**
+ * Infer which manufacturer a palette is restricted to from its name (e.g. "NEUCE PAINTS")
+ */
+const getPaletteManufacturer = (paletteName: string): PaintColor['manufacturer'] | undefined => {
+  const upper = paletteName.toUpperCase();
+  return MANUFACTURERS.find(m => upper.includes(m.toUpperCase()));
+};
+
+const fromCatalog = (color: PaintColor): PaletteColor => ({
+  name: color.name,
+  hex: color.hex,
+  manufacturer: color.manufacturer,
+  code: color.code,
+  stocked: true,
+});
+
+/**
+ * Snap one suggested color to the closest real product
+ * With a space type, only colors sold for that space (or both) are candidates
+ * Falls back to the suggestion itself, flagged as not stocked, when nothing is close enough
+ */
+export const snapColorToCatalog = (
+  color: { name?: string; hex?: string },
+  manufacturer?: PaintColor['manufacturer'],
+  spaceType?: SpaceType
+): PaletteColor | null => {
+  const rgb = hexToRgb(color.hex || '');
+  if (!rgb) return null;
+  const hex = rgbToHex(rgb);
+  const name = (color.name || '').trim();
+
+  const candidates = (manufacturer
+    ? PAINT_COLORS[manufacturer.toLowerCase()] || []
+    : Object.values(PAINT_COLORS).flat()
+  ).filter(c => !spaceType || c.category === 'both' || c.category === spaceType);
+
+  // 1. Name match - trust the name if the hex is in the same neighbourhood
+  const byName = candidates
+    .filter(c => c.name.toLowerCase() === name.toLowerCase())
+    .map(c => ({ color: c, deltaE: hexDeltaE(hex, c.hex) }))
+    .sort((a, b) => a.deltaE - b.deltaE)[0];
+  if (byName && byName.deltaE <= NAME_MATCH_MAX_DELTA_E) {
+    return fromCatalog(byName.color);
+  }
+
+  // 2. Perceptual match on hex alone
+  const nearest = findNearestColor(hex, { maxDeltaE: SNAP_MAX_DELTA_E }, candidates);
+  if (nearest) {
+    return fromCatalog(nearest.color);
+  }
+
+  // 3. No stocked product looks like this
+  return { name: name || hex, hex, stocked: false };
+};
+
+/**
+ * Snap every color in the analysis palettes to catalog products
+ * Drops invalid hexes and duplicates that snapped to the same product
+ * @param spaceType Confident interior/exterior - keeps e.g. interior-only colors out of an exterior job
+ */
+export const snapPalettesToCatalog = (palettes: Palette[], spaceType?: SpaceType): Palette[] => {
+  return (palettes || []).map((palette) => {
+    const manufacturer = getPaletteManufacturer(palette.name || '');
+    const seen = new Set<string>();
+    const colors: PaletteColor[] = [];
+
+    (palette.colors || []).forEach((suggestion) => {
+      // A suggestion that names its manufacturer wins over the palette's (mixed palettes)
+      const snapped = snapColorToCatalog(suggestion, suggestion.manufacturer || manufacturer, spaceType);
+      if (!snapped) return;
+      const key = snapped.code || snapped.hex;
+      if (seen.has(key)) return;
+      seen.add(key);
+      colors.push(snapped);
+    });
+
+    return { ...palette, colors };
+  });
+};
+
+/**
+ * Human-readable product label, e.g. "Terracotta (Neuce NC-002)"
+ */
+export const describePaletteColor = (color: PaletteColor): string => {
+  if (color.code) {
+    return `${color.name} (${color.manufacturer ? `${color.manufacturer} ` : ''}${color.code})`;
+  }
+  return color.stocked === false ? `${color.name} (${color.hex}, not a stocked color)` : color.name;
+};
@@ -0,0 +1,218 @@
+/**
+ * PriceList - Store-specific prices per product SKU with effective dates
+ * Imported from retailer CSV files and kept in localStorage
+ * Shopping lists use the latest price effective today and fall back to estimates otherwise
+ */
+
+import { ShoppingList } from '../types';
+import { parseCsv, CatalogIssue } from '../data/catalogLoader';
+
+const STORAGE_KEY = 'huey_price_lists';
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export interface Store {
+  id: string;
+  name: string;
+}
+
+export interface PriceEntry {
+  storeId: string;
+  sku: string;
+  priceGHS: number; // Per unit (one can, one roller, ...)
+  effectiveDate: string; // YYYY-MM-DD
+}
+
+interface PriceListData {
+  stores: Store[];
+  entries: PriceEntry[];
+}
+
+export interface PriceImportResult {
+  imported: number;
+  stores: Store[];
+  issues: CatalogIssue[];
+}
+
+export interface PriceLookup {
+  priceGHS: number;
+  store: Store;
+  effectiveDate: string;
+}
+
+/**
+ * Today's date string (YYYY-MM-DD) in local time - price lists follow shop calendars
+ */
+function getTodayString(): string {
+  const now = new Date();
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
+}
+
+function toStoreId(name: string): string {
+  return name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+}
+
+function loadData(): PriceListData {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) return { stores: [], entries: [] };
+    const data = JSON.parse(stored);
+    return {
+      stores: Array.isArray(data.stores) ? data.stores : [],
+      entries: Array.isArray(data.entries) ? data.entries : [],
+    };
+  } catch (error) {
+    console.warn('Failed to load price lists:', error);
+    return { stores: [], entries: [] };
+  }
+}
+
+function saveData(data: PriceListData): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(data));
+  } catch (error) {
+    console.warn('Failed to save price lists:', error);
+  }
+}
+
+/**
+ * Stores with at least one imported price
+ */
+export function getStores(): Store[] {
+  return loadData().stores;
+}
+
+/**
+ * Import a retailer CSV
+ * Columns: sku, price_ghs, effective_date (YYYY-MM-DD), optional store
+ * The store can also be given once as a "# store: Name" comment line or via fallbackStoreName
+ * Re-importing the same store/sku/date replaces the old price
+ */
+export function importPriceListCsv(text: string, file: string, fallbackStoreName?: string): PriceImportResult {
+  const { meta, header, rows } = parseCsv(text);
+  const issues: CatalogIssue[] = [];
+
+  const priceColumn = ['price_ghs', 'price', 'priceghs'].find(col => header.includes(col));
+  const dateColumn = ['effective_date', 'effective', 'date'].find(col => header.includes(col));
+  const missing = [
+    !header.includes('sku') && 'sku',
+    !priceColumn && 'price_ghs',
+    !dateColumn && 'effective_date',
+  ].filter(Boolean);
+  if (missing.length > 0) {
+    issues.push({ file, message: `missing column(s): ${missing.join(', ')}` });
+    return { imported: 0, stores: [], issues };
+  }
+
+  const data = loadData();
+  const touchedStores = new Map<string, Store>();
+  let imported = 0;
+
+  rows.forEach(({ row, values }) => {
+    const storeName = (values.store || meta.store || fallbackStoreName || '').trim();
+    if (!storeName) {
+      issues.push({ file, row, message: 'no store name (add a "store" column or a "# store: Name" line)' });
+      return;
+    }
+
+    const sku = (values.sku || '').trim().toUpperCase();
+    if (!sku) {
+      issues.push({ file, row, message: 'missing sku' });
+      return;
+    }
+
+    const rawPrice = (values[priceColumn!] || '').replace(/[₵,\s]|GHS/gi, '');
+    const priceGHS = Number(rawPrice);
+    if (!rawPrice || !Number.isFinite(priceGHS) || priceGHS < 0) {
+      issues.push({ file, row, message: `invalid price "${values[priceColumn!]}" for ${sku}` });
+      return;
+    }
+
+    const effectiveDate = (values[dateColumn!] || '').trim();
+    if (!DATE_PATTERN.test(effectiveDate) || Number.isNaN(Date.parse(effectiveDate))) {
+      issues.push({ file, row, message: `invalid effective date "${effectiveDate}" for ${sku} (expected YYYY-MM-DD)` });
+      return;
+    }
+
+    const store: Store = { id: toStoreId(storeName), name: storeName };
+    touchedStores.set(store.id, store);
+
+    data.entries = data.entries.filter(e =>
+      !(e.storeId === store.id && e.sku === sku && e.effectiveDate === effectiveDate)
+    );
+    data.entries.push({ storeId: store.id, sku, priceGHS, effectiveDate });
+    imported++;
+  });
+
+  touchedStores.forEach((store) => {
+    const existing = data.stores.findIndex(s => s.id === store.id);
+    if (existing >= 0) data.stores[existing] = store;
+    else data.stores.push(store);
+  });
+
+  if (imported > 0) saveData(data);
+  return { imported, stores: Array.from(touchedStores.values()), issues };
+}
+
+/**
+ * Remove a store and all its prices
+ */
+export function removeStore(storeId: string): void {
+  const data = loadData();
+  saveData({
+    stores: data.stores.filter(s => s.id !== storeId),
+    entries: data.entries.filter(e => e.storeId !== storeId),
+  });
+}
+
+/**
+ * Price for a SKU effective on a date
+ * With a storeId, only that store is used; otherwise the cheapest current store price wins
+ */
+export function lookupPrice(sku: string, storeId?: string, date: string = getTodayString()): PriceLookup | null {
+  const data = loadData();
+  const key = sku.toUpperCase();
+
+  // Latest effective entry per store
+  const latestPerStore = new Map<string, PriceEntry>();
+  for (const entry of data.entries) {
+    if (entry.sku !== key || entry.effectiveDate > date) continue;
+    if (storeId && entry.storeId !== storeId) continue;
+    const current = latestPerStore.get(entry.storeId);
+    if (!current || entry.effectiveDate > current.effectiveDate) {
+      latestPerStore.set(entry.storeId, entry);
+    }
+  }
+
+  let best: PriceEntry | null = null;
+  latestPerStore.forEach((entry) => {
+    if (!best || entry.priceGHS < best.priceGHS) best = entry;
+  });
+  if (!best) return null;
+
+  const chosen: PriceEntry = best;
+  const store = data.stores.find(s => s.id === chosen.storeId) || { id: chosen.storeId, name: chosen.storeId };
+  return { priceGHS: chosen.priceGHS, store, effectiveDate: chosen.effectiveDate };
+}
+
+/**
+ * Replace estimated prices with store prices wherever a SKU has one
+ * Items without a store price keep their estimate (priceSource stays unset)
+ */
+export function applyPriceList(list: ShoppingList, storeId?: string, date?: string): ShoppingList {
+  const items = list.items.map((item) => {
+    const { priceSource: _previous, ...rest } = item;
+    const price = item.sku ? lookupPrice(item.sku, storeId, date) : null;
+    if (!price) return rest;
+    return {
+      ...rest,
+      estimatedPriceGHS: Math.round(price.priceGHS * item.quantity * 100) / 100,
+      priceSource: { storeId: price.store.id, storeName: price.store.name, effectiveDate: price.effectiveDate },
+    };
+  });
+
+  return {
+    ...list,
+    items,
+    totalMaterialCostGHS: Math.round(items.reduce((sum, item) => sum + item.estimatedPriceGHS, 0) * 100) / 100,
+  };
+}
@@ -0,0 +1,36 @@
+/**
+ * Prompt Experiment - Which prompt variant (A/B) this browser session uses
+ * Assigned at random once per session so each visitor sees consistent wording;
+ * open the app with ?prompt=A or ?prompt=B to pin a variant while testing
+ */
+
+import { getPromptVersion, toPromptVariant, PromptId, PromptVariant } from '../data/prompts';
+
+const STORAGE_KEY = 'huey_prompt_variant';
+
+let variant: PromptVariant | null = null;
+
+const assignVariant = (): PromptVariant => {
+  const pinned = new URLSearchParams(window.location.search).get('prompt');
+  if (pinned) return toPromptVariant(pinned.toUpperCase());
+
+  try {
+    const stored = sessionStorage.getItem(STORAGE_KEY);
+    if (stored) return toPromptVariant(stored);
+    const assigned: PromptVariant = Math.random() < 0.5 ? 'A' : 'B';
+    sessionStorage.setItem(STORAGE_KEY, assigned);
+    return assigned;
+  } catch {
+    return 'A'; // Storage blocked - no experiment for this visitor
+  }
+};
+
+export const getPromptVariant = (): PromptVariant => {
+  if (!variant) variant = assignVariant();
+  return variant;
+};
+
+/**
+ * Version of a prompt as this session renders it, e.g. "analysis@1/B" - part of every cache key
+ */
+export const getSessionPromptVersion = (id: PromptId): string => getPromptVersion(id, getPromptVariant());
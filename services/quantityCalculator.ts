@@ -0,0 +1,343 @@
+/**
+ * Quantity Calculator - Deterministic paint quantities and costs (no model call)
+ * Same inputs always give the same ShoppingList; the AI only adds installer notes afterwards
+ */
+
+import { Defect, QuantityBreakdown, RoleBreakdown, SchemeRole, ShoppingItem, ShoppingList } from '../types';
+import { PaintProduct, CanSize, ProductTier, TIER_LABELS, getSizeSku } from '../data/paintProducts';
+import { ROLE_LABELS } from './colorScheme';
+import { defectsNeedPrimer, getDefectWeight, getPrepSteps } from './defectPrep';
+
+/**
+ * A scheme color besides the body (trim or accent) with its share of the area
+ */
+export interface RolePaintInput {
+  role: Exclude<SchemeRole, 'body'>;
+  area: number; // m² in this color - taken out of the body's area
+  colorLabel: string;
+  paint?: PaintProduct;
+}
+
+export interface QuantityInput {
+  area: number; // Paintable area in m² (all roles together)
+  surfaceType: string; // From analysis, e.g. "Concrete"
+  condition: string; // From analysis, e.g. "Peeling"
+  colorLabel: string; // e.g. "Terracotta (Neuce NC-002)"
+  paint?: PaintProduct; // Undefined for colors without catalog product data
+  primer?: PaintProduct;
+  coats?: number; // Defaults to the product's recommended coats
+  toolTier?: ProductTier; // Brush/roller quality (default 'standard')
+  skipPrimer?: boolean; // Budget trade-off - leave out primer even when the surface needs it
+  roles?: RolePaintInput[]; // Color scheme: trim/accent paints; paint/colorLabel are then the body's
+  defects?: Defect[]; // From analysis - add prep materials and steps on top of what the condition implies
+}
+
+// Extra paint for cutting in, spillage and touch-ups
+const WASTE_FACTOR = 1.05;
+
+// Assumptions when the color has no catalog product (e.g. not a stocked color)
+const GENERIC_PAINT: Pick<PaintProduct, 'coveragePerLitre' | 'recommendedCoats' | 'sizes'> = {
+  coveragePerLitre: 10,
+  recommendedCoats: 2,
+  sizes: [{ litres: 4, priceGHS: 260 }, { litres: 20, priceGHS: 1150 }],
+};
+const GENERIC_PRIMER: Pick<PaintProduct, 'coveragePerLitre' | 'recommendedCoats' | 'sizes'> = {
+  coveragePerLitre: 9,
+  recommendedCoats: 1,
+  sizes: [{ litres: 4, priceGHS: 200 }, { litres: 20, priceGHS: 880 }],
+};
+
+// Masonry stabiliser - replaces the usual primer on chalky or salty walls (binds the surface and seals it)
+const STABILISING_PRIMER: Pick<PaintProduct, 'sku' | 'name' | 'coveragePerLitre' | 'recommendedCoats' | 'sizes'> = {
+  sku: 'PREP-STABILISER',
+  name: 'Stabilising Primer',
+  coveragePerLitre: 8,
+  recommendedCoats: 1,
+  sizes: [{ litres: 5, priceGHS: 150 }, { litres: 20, priceGHS: 540 }],
+};
+
+// Reference prices for tools and sundries (GHS) - keyed to TOOL_SKUS so store price lists can override them
+const TOOL_PRICES = {
+  roller: 45,
+  rollerTray: 25,
+  brushLarge: 30, // 4 inch
+  brushSmall: 18, // 2 inch
+  maskingTape: 15,
+  dropCloth: 35,
+  sandpaper: 5,
+  scraper: 20,
+  fungicidalWash: 85,
+  filler: 60,
+  wireBrush: 25,
+};
+
+// Generic SKUs for tools and sundries (retailer price lists use the same codes)
+export const TOOL_SKUS: Record<keyof typeof TOOL_PRICES, string> = {
+  roller: 'TOOL-ROLLER-9IN',
+  rollerTray: 'TOOL-TRAY',
+  brushLarge: 'TOOL-BRUSH-4IN',
+  brushSmall: 'TOOL-BRUSH-2IN',
+  maskingTape: 'PREP-TAPE',
+  dropCloth: 'PREP-DROPCLOTH',
+  sandpaper: 'PREP-SANDPAPER',
+  scraper: 'TOOL-SCRAPER',
+  fungicidalWash: 'PREP-FUNGICIDE',
+  filler: 'PREP-FILLER',
+  wireBrush: 'TOOL-WIREBRUSH',
+};
+
+// Tool quality tiers: price multiplier and SKU suffix (standard tools use the plain SKU)
+const TOOL_TIERS: Record<ProductTier, { priceFactor: number; skuSuffix: string }> = {
+  economy: { priceFactor: 0.65, skuSuffix: '-ECO' },
+  standard: { priceFactor: 1, skuSuffix: '' },
+  premium: { priceFactor: 1.5, skuSuffix: '-PRO' },
+};
+
+// Labour per m² for a full job (prep + coats)
+const LABOR_RATE_PER_M2 = 12;
+
+/**
+ * Material absorbency - bare masonry drinks more paint than smooth board
+ */
+const getSurfaceFactor = (surfaceType: string): number => {
+  const s = surfaceType.toLowerCase();
+  if (/block|brick|concrete|cement/.test(s)) return 1.15;
+  if (/plaster|render|stucco|sand/.test(s)) return 1.1;
+  if (/wood|timber|board|gypsum|drywall|plasterboard/.test(s)) return 1.05;
+  if (/metal|steel|iron|alumin/.test(s)) return 1;
+  return 1.1;
+};
+
+/**
+ * Condition factor and whether a primer/sealer coat is needed
+ */
+const getConditionFactor = (condition: string): { factor: number; needsPrimer: boolean } => {
+  const c = condition.toLowerCase();
+  if (/new|bare|fresh|unpainted/.test(c)) return { factor: 1.25, needsPrimer: true };
+  if (/peel|flak|chalk|powder|crack|rust|corro/.test(c)) return { factor: 1.1, needsPrimer: true };
+  if (/mou?ld|mildew|algae|damp|stain/.test(c)) return { factor: 1.05, needsPrimer: true };
+  if (/fad|worn|weather/.test(c)) return { factor: 1.05, needsPrimer: false };
+  return { factor: 1, needsPrimer: false };
+};
+
+/**
+ * Porosity multiplier from analysis fields
+ */
+export const getPorosity = (surfaceType: string, condition: string): { factor: number; needsPrimer: boolean } => {
+  const { factor, needsPrimer } = getConditionFactor(condition);
+  return { factor: Math.round(getSurfaceFactor(surfaceType) * factor * 100) / 100, needsPrimer };
+};
+
+/**
+ * Litres needed to cover an area
+ */
+export const calculateLitres = (
+  area: number,
+  coats: number,
+  coveragePerLitre: number,
+  porosityFactor: number
+): number => {
+  if (area <= 0 || coats <= 0 || coveragePerLitre <= 0) return 0;
+  return Math.round(((area * coats * porosityFactor * WASTE_FACTOR) / coveragePerLitre) * 10) / 10;
+};
+
+/**
+ * Cheapest combination of can sizes that holds at least `litres`
+ * Falls back to fewest litres left over when sizes have no price
+ */
+export const chooseCans = (litres: number, sizes: CanSize[]): { size: CanSize; count: number }[] => {
+  if (litres <= 0 || sizes.length === 0) return [];
+
+  // Work in 0.5L steps so fractional can sizes (e.g. 2.5L) still fit the DP
+  const step = 0.5;
+  const target = Math.ceil(litres / step);
+  const largest = Math.max(...sizes.map(s => Math.round(s.litres / step)));
+  const limit = target + largest;
+
+  // Price per unit volume used to rank sizes without a price
+  const fallbackCost = (s: CanSize) => s.priceGHS ?? s.litres;
+
+  const best: { cost: number; counts: number[] }[] = new Array(limit + 1);
+  best[0] = { cost: 0, counts: sizes.map(() => 0) };
+  for (let v = 1; v <= limit; v++) {
+    sizes.forEach((size, i) => {
+      const units = Math.round(size.litres / step);
+      if (units <= 0 || units > v || !best[v - units]) return;
+      const prev = best[v - units];
+      const cost = prev.cost + fallbackCost(size);
+      if (!best[v] || cost < best[v].cost) {
+        const counts = prev.counts.slice();
+        counts[i]++;
+        best[v] = { cost, counts };
+      }
+    });
+  }
+
+  let choice: { cost: number; counts: number[] } | null = null;
+  for (let v = target; v <= limit; v++) {
+    if (best[v] && (!choice || best[v].cost < choice.cost)) choice = best[v];
+  }
+  if (!choice) return [];
+
+  return sizes
+    .map((size, i) => ({ size, count: choice!.counts[i] }))
+    .filter(c => c.count > 0)
+    .sort((a, b) => b.size.litres - a.size.litres);
+};
+
+const canItems = (
+  product: Pick<PaintProduct, 'sizes'> & Partial<Pick<PaintProduct, 'sku' | 'name'>>,
+  litres: number,
+  category: 'Paint' | 'Primer',
+  label: string,
+  reason: string,
+  role?: SchemeRole
+): ShoppingItem[] =>
+  chooseCans(litres, product.sizes).map(({ size, count }) => ({
+    name: `${label} ${size.litres}L`,
+    ...(product.sku ? { sku: getSizeSku(product as PaintProduct, size.litres) } : {}),
+    ...(role ? { role } : {}),
+    category,
+    quantity: count,
+    unit: size.litres >= 10 ? (count === 1 ? 'bucket' : 'buckets') : (count === 1 ? 'tin' : 'tins'),
+    estimatedPriceGHS: (size.priceGHS ?? 0) * count,
+    reason,
+  }));
+
+/**
+ * Chalky or salty masonry takes a stabilising primer instead of the usual one
+ */
+const needsStabiliser = (condition: string, defects: Defect[] = []): boolean =>
+  /chalk|powder|efflor|salt/.test(condition.toLowerCase()) || defects.some(d => d.type === 'chalking' || d.type === 'efflorescence');
+
+/**
+ * Brushes, rollers and sundries scaled to the job size
+ * Prep sundries come from the condition text and from detected defects; each is added once
+ */
+export const buildToolKit = (
+  area: number,
+  condition: string,
+  tier: ProductTier = 'standard',
+  defects: Defect[] = []
+): ShoppingItem[] => {
+  const c = condition.toLowerCase();
+  const has = (...types: Defect['type'][]) => defects.some(d => types.includes(d.type));
+  const rollers = Math.max(1, Math.ceil(area / 60));
+  const tape = Math.max(1, Math.ceil(area / 40));
+  const cloths = Math.max(1, Math.ceil(area / 50));
+  const largeBrushes = 1 + Math.floor(area / 100);
+
+  const items: ShoppingItem[] = [
+    { name: '9" Paint Roller', sku: TOOL_SKUS.roller, category: 'Hardware', quantity: rollers, unit: rollers === 1 ? 'piece' : 'pieces', estimatedPriceGHS: rollers * TOOL_PRICES.roller, reason: 'Main wall coverage' },
+    { name: 'Roller Tray', sku: TOOL_SKUS.rollerTray, category: 'Hardware', quantity: 1, unit: 'piece', estimatedPriceGHS: TOOL_PRICES.rollerTray, reason: 'Loading the roller evenly' },
+    { name: '4" Paint Brush', sku: TOOL_SKUS.brushLarge, category: 'Hardware', quantity: largeBrushes, unit: largeBrushes === 1 ? 'piece' : 'pieces', estimatedPriceGHS: largeBrushes * TOOL_PRICES.brushLarge, reason: 'Cutting in along edges and corners' },
+    { name: '2" Paint Brush', sku: TOOL_SKUS.brushSmall, category: 'Hardware', quantity: 1, unit: 'piece', estimatedPriceGHS: TOOL_PRICES.brushSmall, reason: 'Detail work around frames and fittings' },
+    { name: 'Masking Tape', sku: TOOL_SKUS.maskingTape, category: 'Preparation', quantity: tape, unit: tape === 1 ? 'roll' : 'rolls', estimatedPriceGHS: tape * TOOL_PRICES.maskingTape, reason: 'Protecting windows, doors and trim' },
+    { name: 'Drop Cloth', sku: TOOL_SKUS.dropCloth, category: 'Preparation', quantity: cloths, unit: cloths === 1 ? 'piece' : 'pieces', estimatedPriceGHS: cloths * TOOL_PRICES.dropCloth, reason: 'Protecting floors and furniture' },
+  ];
+
+  if (/peel|flak|chalk|crack/.test(c) || has('peeling', 'crack', 'chalking')) {
+    const sheets = Math.max(5, Math.ceil(area / 10));
+    items.push(
+      { name: 'Paint Scraper', sku: TOOL_SKUS.scraper, category: 'Preparation', quantity: 1, unit: 'piece', estimatedPriceGHS: TOOL_PRICES.scraper, reason: 'Removing loose and peeling paint' },
+      { name: 'Sandpaper (medium grit)', sku: TOOL_SKUS.sandpaper, category: 'Preparation', quantity: sheets, unit: 'sheets', estimatedPriceGHS: sheets * TOOL_PRICES.sandpaper, reason: 'Smoothing edges after scraping' },
+    );
+  }
+  if (/crack/.test(c) || has('crack')) {
+    // A tub per moderate crack; severe cracks take two, minor ones share
+    const tubs = Math.max(1, Math.ceil(getDefectWeight(defects, ['crack'])));
+    items.push({ name: 'Wall Filler', sku: TOOL_SKUS.filler, category: 'Preparation', quantity: tubs, unit: tubs === 1 ? 'tub' : 'tubs', estimatedPriceGHS: tubs * TOOL_PRICES.filler, reason: 'Filling cracks before painting' });
+  }
+  if (/mou?ld|mildew|algae|damp/.test(c) || has('mould', 'damp')) {
+    const bottles = Math.max(1, Math.ceil(area / 40));
+    items.push({ name: 'Fungicidal Wash', sku: TOOL_SKUS.fungicidalWash, category: 'Preparation', quantity: bottles, unit: bottles === 1 ? 'bottle' : 'bottles', estimatedPriceGHS: bottles * TOOL_PRICES.fungicidalWash, reason: 'Killing mould before it grows through new paint' });
+  }
+  if (/efflor|salt/.test(c) || has('efflorescence')) {
+    items.push({ name: 'Wire Brush', sku: TOOL_SKUS.wireBrush, category: 'Preparation', quantity: 1, unit: 'piece', estimatedPriceGHS: TOOL_PRICES.wireBrush, reason: 'Dry-brushing off salt deposits' });
+  }
+
+  const { priceFactor, skuSuffix } = TOOL_TIERS[tier];
+  if (tier === 'standard') return items;
+
+  // Only brushes and rollers change with quality; sundries stay the same
+  return items.map(item =>
+    item.category === 'Hardware'
+      ? {
+          ...item,
+          name: `${TIER_LABELS[tier]} ${item.name}`,
+          sku: item.sku ? `${item.sku}${skuSuffix}` : item.sku,
+          estimatedPriceGHS: Math.round(item.estimatedPriceGHS * priceFactor),
+        }
+      : item
+  );
+};
+
+/**
+ * Build a complete shopping list from area, surface and product data
+ */
+export const calculateShoppingList = (input: QuantityInput): ShoppingList & { calculation: QuantityBreakdown } => {
+  const area = Math.max(0, input.area);
+  const paint = input.paint || GENERIC_PAINT;
+  const stabilise = needsStabiliser(input.condition, input.defects);
+  const primer = stabilise ? STABILISING_PRIMER : input.primer || GENERIC_PRIMER;
+  const coats = input.coats ?? paint.recommendedCoats;
+  const porosity = getPorosity(input.surfaceType, input.condition);
+
+  // Scheme roles take their share out of the body; primer and tools still cover the whole job
+  const roleInputs = (input.roles || []).filter(r => r.area > 0);
+  const bodyArea = Math.max(0, Math.round((area - roleInputs.reduce((sum, r) => sum + r.area, 0)) * 10) / 10);
+  const bodyLitres = calculateLitres(bodyArea, coats, paint.coveragePerLitre, porosity.factor);
+  const roleLitres = roleInputs.map(r => calculateLitres(r.area, coats, (r.paint || GENERIC_PAINT).coveragePerLitre, porosity.factor));
+  const paintLitres = Math.round((bodyLitres + roleLitres.reduce((sum, l) => sum + l, 0)) * 10) / 10;
+  // Primer goes on the raw surface, so it takes the full porosity hit for a single coat
+  const usePrimer = (porosity.needsPrimer || stabilise || defectsNeedPrimer(input.defects)) && !input.skipPrimer;
+  const primerLitres = usePrimer
+    ? calculateLitres(area, primer.recommendedCoats, primer.coveragePerLitre, porosity.factor)
+    : 0;
+
+  const paintLabel = input.paint ? `${input.paint.name} - ${input.colorLabel}` : `Wall Paint - ${input.colorLabel}`;
+  const primerLabel = stabilise ? STABILISING_PRIMER.name : input.primer ? input.primer.name : 'Primer / Sealer';
+
+  const coatsText = `${coats} coat${coats === 1 ? '' : 's'}`;
+  const roles: RoleBreakdown[] | undefined = roleInputs.length > 0
+    ? [{ role: 'body', area: bodyArea, paintLitres: bodyLitres }, ...roleInputs.map((r, i) => ({ role: r.role, area: r.area, paintLitres: roleLitres[i] }))]
+    : undefined;
+
+  const items: ShoppingItem[] = [
+    ...(roles
+      ? [
+          ...canItems(paint, bodyLitres, 'Paint', `${ROLE_LABELS.body}: ${paintLabel}`, `${bodyLitres}L for ${coatsText} over ${bodyArea}m² of main walls`, 'body'),
+          ...roleInputs.flatMap((r, i) => {
+            const label = r.paint ? `${r.paint.name} - ${r.colorLabel}` : `Wall Paint - ${r.colorLabel}`;
+            return canItems(r.paint || GENERIC_PAINT, roleLitres[i], 'Paint', `${ROLE_LABELS[r.role]}: ${label}`, `${roleLitres[i]}L for ${coatsText} over ${r.area}m² of ${r.role}`, r.role);
+          }),
+        ]
+      : canItems(paint, paintLitres, 'Paint', paintLabel, `${paintLitres}L for ${coatsText} over ${area}m²`)),
+    ...(usePrimer
+      ? canItems(primer, primerLitres, 'Primer', primerLabel, `${primerLitres}L to seal ${input.condition.toLowerCase()} ${input.surfaceType.toLowerCase()} before painting`)
+      : []),
+    ...buildToolKit(area, input.condition, input.toolTier, input.defects),
+  ];
+  const prepSteps = getPrepSteps(input.defects);
+
+  const totalMaterialCostGHS = items.reduce((sum, item) => sum + item.estimatedPriceGHS, 0);
+  const coverage = input.paint ? `${input.paint.coveragePerLitre} m²/L` : `about ${paint.coveragePerLitre} m²/L`;
+
+  return {
+    items,
+    totalMaterialCostGHS,
+    estimatedLaborCostGHS: Math.round(area * LABOR_RATE_PER_M2),
+    installationNotes:
+      `${usePrimer ? 'Prepare and prime the surface first. ' : ''}` +
+      `Apply ${coats} coat${coats === 1 ? '' : 's'} at ${coverage}, allowing 2-4 hours drying time between coats.`,
+    ...(prepSteps.length > 0 ? { prepSteps } : {}),
+    calculation: {
+      coats,
+      porosityFactor: porosity.factor,
+      paintLitres,
+      primerLitres,
+      needsPrimer: usePrimer,
+      ...(roles ? { roles } : {}),
+    },
+  };
+};
@@ -0,0 +1,79 @@
+/**
+ * Room Area - Paintable area from wall dimensions
+ * Walls are length × height; doors and windows are deducted using standard Ghanaian sizes
+ */
+
+export type OpeningType = 'door' | 'doubleDoor' | 'window' | 'louvre';
+
+export interface WallDimension {
+  id: string;
+  length: number; // metres
+  height: number; // metres
+}
+
+export interface OpeningCount {
+  type: OpeningType;
+  count: number;
+}
+
+export interface RoomDimensions {
+  walls: WallDimension[];
+  openings: OpeningCount[];
+  ceiling?: { length: number; width: number }; // Included when painting the ceiling
+  parapet?: { length: number; height: number }; // Exterior parapet / fence wall, both faces painted
+}
+
+export interface AreaBreakdown {
+  wallArea: number;
+  openingsArea: number;
+  ceilingArea: number;
+  parapetArea: number;
+  total: number; // Paintable area in m²
+}
+
+// Common sizes used by Ghanaian builders and carpenters (metres)
+export const OPENING_PRESETS: Record<OpeningType, { label: string; width: number; height: number }> = {
+  door: { label: 'Door', width: 0.9, height: 2.1 },
+  doubleDoor: { label: 'Double door', width: 1.5, height: 2.1 },
+  window: { label: 'Window', width: 1.2, height: 1.2 },
+  louvre: { label: 'Louvre window', width: 0.6, height: 1.2 },
+};
+
+export const DEFAULT_WALL_HEIGHT = 3; // Typical single-storey wall height
+
+const round = (value: number) => Math.round(value * 10) / 10;
+const positive = (value: number) => (Number.isFinite(value) && value > 0 ? value : 0);
+
+/**
+ * Compute paintable area; openings never take the wall area below zero
+ */
+export const calculatePaintableArea = (dimensions: RoomDimensions): AreaBreakdown => {
+  const wallArea = dimensions.walls.reduce((sum, w) => sum + positive(w.length) * positive(w.height), 0);
+
+  const rawOpenings = dimensions.openings.reduce((sum, o) => {
+    const preset = OPENING_PRESETS[o.type];
+    return sum + (preset ? preset.width * preset.height * positive(Math.floor(o.count)) : 0);
+  }, 0);
+  const openingsArea = Math.min(rawOpenings, wallArea);
+
+  const ceilingArea = dimensions.ceiling
+    ? positive(dimensions.ceiling.length) * positive(dimensions.ceiling.width)
+    : 0;
+  const parapetArea = dimensions.parapet
+    ? positive(dimensions.parapet.length) * positive(dimensions.parapet.height) * 2
+    : 0;
+
+  return {
+    wallArea: round(wallArea),
+    openingsArea: round(openingsArea),
+    ceilingArea: round(ceilingArea),
+    parapetArea: round(parapetArea),
+    total: round(wallArea - openingsArea + ceilingArea + parapetArea),
+  };
+};
+
+export const createWall = (length = 0, height = DEFAULT_WALL_HEIGHT): WallDimension => ({
+  id: `wall_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 7)}`,
+  length,
+  height,
+});
@@ -0,0 +1,27 @@
+/**
+ * Space Type - Whether the photo shows an interior or an exterior, and when to trust it
+ * A confident answer narrows palettes to matching catalog colors, picks weather shield or
+ * emulsion for the shopping list and tunes the render prompt; an unsure one changes nothing
+ * Pure module: used by the server routes and the browser alike
+ */
+
+import type { AnalysisResult, SpaceType } from '../types';
+
+export const SPACE_TYPES: SpaceType[] = ['interior', 'exterior'];
+
+export const SPACE_TYPE_MIN_CONFIDENCE = 0.6;
+
+export const SPACE_TYPE_LABELS: Record<SpaceType, string> = {
+  interior: 'Interior',
+  exterior: 'Exterior',
+};
+
+/**
+ * The analysis's space type when it is confident enough to act on
+ */
+export const getConfidentSpaceType = (
+  analysis?: Pick<AnalysisResult, 'spaceType' | 'spaceTypeConfidence'> | null
+): SpaceType | undefined =>
+  analysis?.spaceType && (analysis.spaceTypeConfidence ?? 0) >= SPACE_TYPE_MIN_CONFIDENCE
+    ? analysis.spaceType
+    : undefined;
@@ -0,0 +1,193 @@
+/**
+ * Usage Ledger - Tokens and estimated cost of every AI call, kept in IndexedDB
+ * Totals per browser session, per day and per operation, so savings from caching
+ * and prompt trimming can be measured instead of guessed
+ */
+
+import { ModelOperation, ModelUsage } from '../types';
+import { estimateCostUSD } from '../data/modelPricing';
+
+export interface UsageEntry extends ModelUsage {
+  timestamp: number;
+  day: string; // Local date, "YYYY-MM-DD"
+  sessionId: string;
+  costUSD: number | null; // null = model not in the price table
+}
+
+export interface UsageTotals {
+  calls: number;
+  promptTokens: number;
+  cachedTokens: number;
+  outputTokens: number;
+  costUSD: number;
+  unpricedCalls: number; // Calls whose cost is missing from costUSD
+}
+
+export interface UsageSummary {
+  session: UsageTotals;
+  today: UsageTotals;
+  todayByOperation: Record<ModelOperation, UsageTotals>;
+  earlierDays: { day: string; totals: UsageTotals }[]; // Before today, newest first
+}
+
+export const USAGE_EVENT = 'huey:usage-recorded'; // Fired on window after each write
+
+const DB_NAME = 'huey-usage';
+const STORE = 'calls';
+const RETENTION_DAYS = 30;
+
+// One id per page load
+const SESSION_ID = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+const toDay = (timestamp: number): string => {
+  const date = new Date(timestamp);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDB = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => resolve(request.result);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE, { autoIncrement: true });
+        store.createIndex('timestamp', 'timestamp');
+      };
+    }).catch(error => {
+      dbPromise = null; // Try again next time
+      throw error;
+    });
+  }
+  return dbPromise;
+};
+
+const emptyTotals = (): UsageTotals => ({
+  calls: 0,
+  promptTokens: 0,
+  cachedTokens: 0,
+  outputTokens: 0,
+  costUSD: 0,
+  unpricedCalls: 0,
+});
+
+const addEntry = (totals: UsageTotals, entry: UsageEntry): void => {
+  totals.calls++;
+  totals.promptTokens += entry.promptTokens;
+  totals.cachedTokens += entry.cachedTokens;
+  totals.outputTokens += entry.outputTokens;
+  if (entry.costUSD === null) totals.unpricedCalls++;
+  else totals.costUSD += entry.costUSD;
+};
+
+/**
+ * Usage reported with an API response (unknown shapes are ignored)
+ */
+const isModelUsage = (value: unknown): value is ModelUsage => {
+  if (!value || typeof value !== 'object') return false;
+  const call = value as Record<string, unknown>;
+  return typeof call.model === 'string' && typeof call.operation === 'string' &&
+    [call.promptTokens, call.cachedTokens, call.outputTokens].every(n => typeof n === 'number' && n >= 0);
+};
+
+/**
+ * Add the calls behind one API response to the ledger
+ * Never throws - losing a ledger entry must not fail the request it describes
+ */
+export const recordUsage = async (usage: unknown): Promise<void> => {
+  if (!Array.isArray(usage)) return;
+  const calls = usage.filter(isModelUsage);
+  if (calls.length === 0) return;
+
+  try {
+    const db = await openDB();
+    const timestamp = Date.now();
+    await new Promise<void>((resolve, reject) => {
+      const tx = db.transaction(STORE, 'readwrite');
+      const store = tx.objectStore(STORE);
+      for (const call of calls) {
+        const entry: UsageEntry = {
+          operation: call.operation,
+          model: call.model,
+          promptTokens: call.promptTokens,
+          cachedTokens: call.cachedTokens,
+          outputTokens: call.outputTokens,
+          timestamp,
+          day: toDay(timestamp),
+          sessionId: SESSION_ID,
+          costUSD: estimateCostUSD(call),
+        };
+        store.add(entry);
+      }
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+    window.dispatchEvent(new Event(USAGE_EVENT));
+  } catch (error) {
+    console.warn('Could not record AI usage:', error);
+  }
+};
+
+/**
+ * Totals for this session, today and the last `days` days; entries past retention are pruned
+ */
+export const getUsageSummary = async (days = 7): Promise<UsageSummary> => {
+  const db = await openDB();
+  const now = Date.now();
+  const since = now - days * 24 * 60 * 60 * 1000;
+  const pruneBefore = now - RETENTION_DAYS * 24 * 60 * 60 * 1000;
+
+  const entries = await new Promise<UsageEntry[]>((resolve, reject) => {
+    const tx = db.transaction(STORE, 'readwrite');
+    const index = tx.objectStore(STORE).index('timestamp');
+    index.openCursor(IDBKeyRange.upperBound(pruneBefore, true)).onsuccess = (e) => {
+      const cursor = (e.target as IDBRequest<IDBCursorWithValue | null>).result;
+      if (cursor) {
+        cursor.delete();
+        cursor.continue();
+      }
+    };
+    const request = index.getAll(IDBKeyRange.lowerBound(since));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+  const today = toDay(now);
+  const summary: UsageSummary = {
+    session: emptyTotals(),
+    today: emptyTotals(),
+    todayByOperation: { analysis: emptyTotals(), visualization: emptyTotals(), notes: emptyTotals() },
+    earlierDays: [],
+  };
+  const byDay = new Map<string, UsageTotals>();
+
+  for (const entry of entries) {
+    if (entry.sessionId === SESSION_ID) addEntry(summary.session, entry);
+    if (entry.day === today) {
+      addEntry(summary.today, entry);
+      const operation = summary.todayByOperation[entry.operation];
+      if (operation) addEntry(operation, entry);
+    } else {
+      if (!byDay.has(entry.day)) byDay.set(entry.day, emptyTotals());
+      addEntry(byDay.get(entry.day)!, entry);
+    }
+  }
+
+  summary.earlierDays = [...byDay.entries()]
+    .sort(([a], [b]) => b.localeCompare(a))
+    .map(([day, totals]) => ({ day, totals }));
+  return summary;
+};
+
+export const clearUsage = async (): Promise<void> => {
+  const db = await openDB();
+  await new Promise<void>((resolve, reject) => {
+    const tx = db.transaction(STORE, 'readwrite');
+    tx.objectStore(STORE).clear();
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+  window.dispatchEvent(new Event(USAGE_EVENT));
+};
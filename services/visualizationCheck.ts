@@ -0,0 +1,125 @@
+/**
+ * Visualization Check - Did a render actually repaint the walls in the requested color?
+ * Compares the photo and the render pixel for pixel at the same small scale: enough of the
+ * photo must change (or already be the requested color) and the changed region must average close
+ * to the requested color. Without a wall mask it can't tell walls from sky or a gate, so what
+ * changed is not checked. Pixels already in the requested color only count once some of the photo
+ * was actually repainted - otherwise white sky or trim would pass an unchanged render for a white paint
+ */
+
+import { hexToLab, labToRgb, rgbToHex, Lab } from '../data/colorScience';
+import { loadImageData, toLabPixels } from './localRecolor';
+import { describeColorAccuracy, ColorAccuracy } from './colorAccuracy';
+
+export type CheckIssue = 'unchanged' | 'color';
+
+export interface VisualizationCheck {
+  ok: boolean;
+  issues: CheckIssue[];
+  changedFraction: number; // Share of the photo that changed noticeably
+  matchingFraction: number; // Share already close to the requested color that stayed so (e.g. off-white on white); 0 when nothing was repainted
+  colorDeltaE: number | null; // ΔE2000 between the changed region's average and the requested color
+  accuracy: ColorAccuracy | null; // Requested vs rendered color report (single-color renders only)
+}
+
+export interface CheckOptions {
+  colorHex?: string; // Omit for multi-color renders (schemes) - only the changed area is checked
+  minChangedFraction?: number; // Lower it when a single small surface (e.g. a gate) is targeted
+}
+
+const CHECK_MAX_SIDE = 256; // Plenty for area and average color; keeps the check in the tens of ms
+const CHANGE_THRESHOLD = 12; // ΔE76 above which a pixel counts as repainted
+const DEFAULT_MIN_CHANGED_FRACTION = 0.03;
+const NEAR_TARGET = 15; // ΔE76 to the requested color within which an unchanged pixel already looks painted
+const MIN_REPAINTED_FRACTION = 0.005; // Share that must really change before already-matching pixels count
+const MAX_COLOR_DELTA_E = 20; // Lenient: lighting and shade pull the rendered average off the chip
+
+export const CHECK_MESSAGES: Record<CheckIssue, string> = {
+  unchanged: 'Hardly anything in the photo was repainted.',
+  color: 'The painted color may not match the chosen paint.',
+};
+
+/**
+ * Compare a photo with its render (same dimensions)
+ */
+export const compareImages = (before: ImageData, after: ImageData, options: CheckOptions = {}): VisualizationCheck => {
+  if (before.width !== after.width || before.height !== after.height) {
+    throw new Error('Images must be the same size to compare.');
+  }
+  const beforeLab = toLabPixels(before);
+  const afterLab = toLabPixels(after);
+  const pixels = before.width * before.height;
+
+  const target = options.colorHex ? hexToLab(options.colorHex) : null;
+  const minChangedFraction = options.minChangedFraction ?? DEFAULT_MIN_CHANGED_FRACTION;
+
+  let changed = 0;
+  const changedSum: Lab = { L: 0, a: 0, b: 0 };
+  let matching = 0;
+  const matchingSum: Lab = { L: 0, a: 0, b: 0 };
+  for (let p = 0; p < pixels; p++) {
+    const k = p * 3;
+    const difference = Math.hypot(afterLab[k] - beforeLab[k], afterLab[k + 1] - beforeLab[k + 1], afterLab[k + 2] - beforeLab[k + 2]);
+    if (difference > CHANGE_THRESHOLD) {
+      changed++;
+      changedSum.L += afterLab[k];
+      changedSum.a += afterLab[k + 1];
+      changedSum.b += afterLab[k + 2];
+    } else if (target && Math.hypot(afterLab[k] - target.L, afterLab[k + 1] - target.a, afterLab[k + 2] - target.b) <= NEAR_TARGET) {
+      matching++;
+      matchingSum.L += afterLab[k];
+      matchingSum.a += afterLab[k + 1];
+      matchingSum.b += afterLab[k + 2];
+    }
+  }
+
+  const changedFraction = changed / pixels;
+  const matchingFraction = changedFraction >= MIN_REPAINTED_FRACTION ? matching / pixels : 0;
+  // Paint close to the wall's own color changes little - then the walls that already match are the painted region
+  const region = changedFraction >= minChangedFraction || matchingFraction === 0
+    ? { count: changed, sum: changedSum }
+    : { count: changed + matching, sum: { L: changedSum.L + matchingSum.L, a: changedSum.a + matchingSum.a, b: changedSum.b + matchingSum.b } };
+  const renderedHex = region.count > 0
+    ? rgbToHex(labToRgb({ L: region.sum.L / region.count, a: region.sum.a / region.count, b: region.sum.b / region.count }))
+    : null;
+  const accuracy = options.colorHex && renderedHex ? describeColorAccuracy(options.colorHex, renderedHex) : null;
+  const colorDeltaE = accuracy ? accuracy.deltaE : null;
+
+  const issues: CheckIssue[] = [];
+  if (changedFraction + matchingFraction < minChangedFraction) issues.push('unchanged');
+  if (colorDeltaE !== null && colorDeltaE > MAX_COLOR_DELTA_E) issues.push('color');
+
+  return {
+    ok: issues.length === 0,
+    issues,
+    changedFraction: Math.round(changedFraction * 1000) / 1000,
+    matchingFraction: Math.round(matchingFraction * 1000) / 1000,
+    colorDeltaE,
+    accuracy,
+  };
+};
+
+/**
+ * Check a render against the photo it was made from
+ * @param base64Image The photo as sent to the provider (raw base64 or data URL)
+ * @param visualizedImage The render as a data URL
+ */
+export const verifyVisualization = async (
+  base64Image: string,
+  visualizedImage: string,
+  options: CheckOptions = {}
+): Promise<VisualizationCheck> => {
+  const src = base64Image.startsWith('data:') ? base64Image : `data:image/jpeg;base64,${base64Image}`;
+  const before = await loadImageData(src, CHECK_MAX_SIDE);
+  // Renders may come back at another resolution or aspect - compare on the photo's grid
+  const after = await loadImageData(visualizedImage, CHECK_MAX_SIDE, { width: before.width, height: before.height });
+  return compareImages(before, after, options);
+};
+
+/**
+ * Of two checks, the one whose render is more trustworthy
+ */
+export const isBetterCheck = (candidate: VisualizationCheck, current: VisualizationCheck): boolean =>
+  candidate.issues.length !== current.issues.length
+    ? candidate.issues.length < current.issues.length
+    : (candidate.colorDeltaE ?? 0) < (current.colorDeltaE ?? 0);
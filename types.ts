@@ -1,24 +1,102 @@
+export interface PaletteColor {
+  name: string;
+  hex: string;
+  manufacturer?: 'Neuce' | 'Azar' | 'Leyland' | 'Shield' | 'Other';
+  code?: string; // Manufacturer's color code when matched to a catalog product
+  stocked?: boolean; // false when the suggested color has no close catalog product
+}
+
+export type SchemeRole = 'body' | 'trim' | 'accent';
+
+/**
+ * Colors assigned to roles for a combined render; body is required, trim and accent optional
+ */
+export interface ColorScheme {
+  body: PaletteColor;
+  trim?: PaletteColor;
+  accent?: PaletteColor;
+}
+
 export interface Palette {
   name: string;
-  colors: { name: string; hex: string }[];
+  colors: PaletteColor[];
   description: string;
 }
 
+export interface Surface {
+  id: string; // Slug of the name, unique within an analysis (e.g. "window-trim")
+  name: string; // e.g. "Main body", "Columns", "Window trim", "Fence wall", "Gate"
+  material: string; // Concrete/Plaster/Wood/Metal
+  condition: string; // New/Good/Peeling/Moldy/Rusty
+}
+
+export type SpaceType = 'interior' | 'exterior';
+
+export type DefectType = 'crack' | 'peeling' | 'mould' | 'damp' | 'chalking' | 'efflorescence';
+
+export type DefectSeverity = 'minor' | 'moderate' | 'severe';
+
+export interface BoundingBox {
+  x: number; // Left edge, 0-1 of the photo width
+  y: number; // Top edge, 0-1 of the photo height
+  width: number;
+  height: number;
+}
+
+export interface Defect {
+  type: DefectType;
+  severity: DefectSeverity;
+  box?: BoundingBox; // Where it is in the photo; absent when the model gave no usable location
+  note?: string; // e.g. "Hairline cracks below the left window"
+}
+
 export interface AnalysisResult {
-  surfaceType: string;
-  condition: string;
+  surfaceType: string; // Main body material
+  condition: string; // Main body condition
   description: string;
   estimatedAreaWarning: string;
   palettes: Palette[];
+  surfaces?: Surface[]; // Separately paintable regions; absent in analyses cached before surfaces existed
+  spaceType?: SpaceType; // Inside or outside; absent when the model gave no usable answer
+  spaceTypeConfidence?: number; // 0-1 - below SPACE_TYPE_MIN_CONFIDENCE the type is shown but not acted on
+  defects?: Defect[]; // Visible defects needing prep; absent in analyses cached before defects existed
+  promptVersion?: string; // Prompt that produced it, e.g. "analysis@1/B" (see data/prompts.ts)
 }
 
 export interface ShoppingItem {
   name: string;
+  sku?: string; // Product SKU incl. can size (e.g. "NC-WSH-20L") when taken from catalog data
   category: 'Paint' | 'Primer' | 'Hardware' | 'Preparation' | 'Other';
   quantity: number;
   unit: string;
-  estimatedPriceGHS: number;
+  estimatedPriceGHS: number; // Line total (quantity × unit price)
   reason: string;
+  role?: SchemeRole; // Scheme paint lines only - which role this paint is for
+  priceSource?: { storeId: string; storeName: string; effectiveDate: string }; // Unset = estimate
+}
+
+export interface RoleBreakdown {
+  role: SchemeRole;
+  area: number; // m² painted in this role's color
+  paintLitres: number;
+}
+
+export interface QuantityBreakdown {
+  coats: number;
+  porosityFactor: number; // >1 means the surface soaks up more paint
+  paintLitres: number; // All roles together
+  primerLitres: number;
+  needsPrimer: boolean;
+  roles?: RoleBreakdown[]; // Color schemes only, body first
+}
+
+export interface BudgetSummary {
+  tier: 'economy' | 'standard' | 'premium';
+  budgetGHS?: number; // Materials budget entered by the user
+  withinBudget: boolean;
+  tradeOffs: string[]; // Compromises made to fit the budget, e.g. "One coat only"
+  shortfallGHS?: number; // How much more is needed when even the cheapest plan doesn't fit
+  coverableArea?: number; // m² the budget can cover with the cheapest plan
 }
 
 export interface ShoppingList {
@@ -26,6 +104,9 @@ export interface ShoppingList {
   totalMaterialCostGHS: number;
   estimatedLaborCostGHS: number;
   installationNotes: string;
+  prepSteps?: string[]; // Surface prep for the detected defects, in working order
+  calculation?: QuantityBreakdown; // Present when quantities come from the local calculator
+  budget?: BudgetSummary;
 }
 
 export enum AppState {
@@ -37,4 +118,16 @@ export enum AppState {
 
 export interface GeminiError {
   message: string;
-}
\ No newline at end of file
+}
+export type ModelOperation = 'analysis' | 'visualization' | 'notes';
+
+/**
+ * Tokens one model call used, as reported by the API
+ */
+export interface ModelUsage {
+  operation: ModelOperation;
+  model: string;
+  promptTokens: number; // Includes cachedTokens
+  cachedTokens: number; // Served from a context cache - billed at the cached rate
+  outputTokens: number; // Candidates plus thinking tokens, both billed as output
+}
@@ -1,19 +1,18 @@
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
+import { devApi } from './server/devApi';
 
 export default defineConfig(({ mode }) => {
+    // Server-only variables (API key, model overrides): handed to the local API routes, never defined into the client bundle
     const env = loadEnv(mode, '.', '');
+    const serverEnv = Object.fromEntries(Object.entries(env).filter(([key]) => key.startsWith('GEMINI_')));
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
-      define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
-      },
+      plugins: [react(), devApi(serverEnv)],
       resolve: {
         alias: {
           '@': path.resolve(__dirname, '.'),